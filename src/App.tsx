@@ -1,30 +1,104 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Button, Modal, Segmented, Select, message } from 'antd';
 import { MetadataPanel } from './components/MetadataPanel';
 import { RecordingControls } from './components/RecordingControls';
 import { NotesEditor } from './components/NotesEditor';
 import { AudioPlayer } from './components/AudioPlayer';
+import { MeetingLibrary } from './components/MeetingLibrary';
+import { MeetingSearch } from './components/MeetingSearch';
+import { CommandPalette } from './components/CommandPalette';
+import { ShortcutSettings } from './components/ShortcutSettings';
 import { FileManagerService } from './services/fileManager';
-import type { MeetingInfo } from './types/types';
+import { RecordingRecoveryService } from './services/recordingRecovery';
+import { DraftStore } from './services/draftStore';
+import { MetadataBuilder } from './services/metadataBuilder';
+import { Attendees } from './services/attendees';
+import { Shortcuts } from './services/shortcuts';
+import { useFolderAccess } from './hooks/useFolderAccess';
+import { useShortcuts, useShortcutTitle } from './hooks/useShortcuts';
+import { useI18n } from './i18n/I18nProvider';
+import { LANGUAGES } from './i18n';
+import type {
+  AppLanguage,
+  LoadedProject,
+  MeetingDraft,
+  MeetingInfo,
+  MeetingSessionSnapshot,
+  NoteLineMeta,
+  PauseInterval,
+  RecoveredRecording,
+  SavedProject
+} from './types/types';
 import './styles/global.css';
 
+type AppView = 'editor' | 'library' | 'search';
+
+const createDefaultMeetingInfo = (): MeetingInfo => ({
+  title: `${new Date().toISOString().split('T')[0]} _ `,
+  date: new Date().toISOString().split('T')[0],
+  time: new Date().toTimeString().slice(0, 5),
+  location: '',
+  host: '',
+  attendees: ''
+});
+
+// Saved state of the notes, compared to detect edits after a save
+const notesFingerprint = (
+  notes: string,
+  timestampMap: Map<number, number>,
+  lineMeta: Map<number, NoteLineMeta>
+): string => JSON.stringify([notes, Array.from(timestampMap.entries()), Array.from(lineMeta.entries())]);
+
 export const App: React.FC = () => {
-  const [folderPath, setFolderPath] = useState<string>('');
+  const { t, locale, language, setLanguage } = useI18n();
+  const [fileManager] = useState(() => new FileManagerService());
+  const folderAccess = useFolderAccess(fileManager);
+  const { folderPath } = folderAccess;
+  const [savedProject, setSavedProject] = useState<SavedProject | null>(null);
+  const [view, setView] = useState<AppView>('editor');
   const [isRecording, setIsRecording] = useState(false);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
-  const [meetingInfo, setMeetingInfo] = useState<MeetingInfo>({
-    title: `${new Date().toISOString().split('T')[0]} _ `,
-    date: new Date().toISOString().split('T')[0],
-    time: new Date().toTimeString().slice(0, 5),
-    location: '',
-    host: '',
-    attendees: ''
-  });
+  const [meetingInfo, setMeetingInfo] = useState<MeetingInfo>(createDefaultMeetingInfo);
   const [notes, setNotes] = useState<string>('');
   const [timestampMap, setTimestampMap] = useState<Map<number, number>>(new Map());
+  const [lineMeta, setLineMeta] = useState<Map<number, NoteLineMeta>>(new Map());
   const [recordingStartTime, setRecordingStartTime] = useState<number>(0);
+  const [pauses, setPauses] = useState<PauseInterval[]>([]);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
   const [savedNotesSnapshot, setSavedNotesSnapshot] = useState<string>('');
+  const [recovery, setRecovery] = useState<RecoveredRecording | null>(null);
+  // Bumped whenever a whole session is loaded so NotesEditor re-reads its line timestamps
+  const [editorKey, setEditorKey] = useState(0);
+  const [drafts, setDrafts] = useState<MeetingDraft[]>([]);
+  const [currentDraftId, setCurrentDraftId] = useState<string>(() => DraftStore.createId());
+  // The autosave waiting to run and the one being written, so deleting a draft can outrun neither
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const autosaveRef = useRef<Promise<void>>(Promise.resolve());
+  const [defaultTitle, setDefaultTitle] = useState<string>(() => createDefaultMeetingInfo().title);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [shortcutSettingsOpen, setShortcutSettingsOpen] = useState(false);
+  // Recording position (seconds) to play from once a project opened from search is shown
+  const [pendingSeek, setPendingSeek] = useState<number | null>(null);
+  const shortcutTitle = useShortcutTitle();
+
+  // Same positions NotesEditor seeks to, used for the waveform markers
+  const noteLines = useMemo(
+    () => MetadataBuilder.buildNoteLines(notes, timestampMap, recordingStartTime, pauses, lineMeta),
+    [notes, timestampMap, recordingStartTime, pauses, lineMeta]
+  );
+  const speakers = useMemo(() => Attendees.speakers(meetingInfo), [meetingInfo]);
+
+  // One listener dispatches every shortcut to the action registered for it
+  useEffect(() => {
+    window.addEventListener('keydown', Shortcuts.handleKeyDown);
+    return () => window.removeEventListener('keydown', Shortcuts.handleKeyDown);
+  }, []);
+
+  useShortcuts({
+    commandPalette: () => setPaletteOpen(true),
+    shortcutSettings: () => setShortcutSettingsOpen(true)
+  });
 
   // Check browser compatibility
   useEffect(() => {
@@ -35,16 +109,77 @@ export const App: React.FC = () => {
     }
   }, []);
 
+  // The draft list is shown whether or not a recording is recovered below
+  useEffect(() => {
+    DraftStore.list()
+      .then(setDrafts)
+      .catch((error) => console.warn('Failed to load drafts:', error));
+  }, []);
+
+  // Offer to recover a recording interrupted by a crash or reload, otherwise to resume a draft
+  useEffect(() => {
+    RecordingRecoveryService.findUnfinishedSessions()
+      .then(async (sessions) => {
+        const session = sessions[0];
+        if (!session) {
+          await offerDraftResume();
+          return;
+        }
+
+        Modal.confirm({
+          title: t('app.recoverTitle'),
+          content: t('app.recoverContent', {
+            started: new Date(session.startedAt).toLocaleString(locale),
+            updated: new Date(session.updatedAt).toLocaleTimeString(locale)
+          }),
+          okText: t('app.recoverOk'),
+          cancelText: t('common.discard'),
+          onOk: async () => {
+            try {
+              const { audioBlob: blob, recording } =
+                await RecordingRecoveryService.rebuildAudio(session);
+              applySnapshot(session.snapshot);
+              setAudioBlob(blob);
+              setRecovery(recording);
+              message.success(t('app.recovered'));
+            } catch (error: any) {
+              message.error(t('app.recoverFailed', { error: error.message }));
+            }
+          },
+          onCancel: () => RecordingRecoveryService.discardSession(session.id)
+        });
+      })
+      .catch((error) => console.warn('Crash recovery unavailable:', error));
+  }, []);
+
+  // Autosave the current session as a draft
+  useEffect(() => {
+    const snapshot = createSnapshot();
+    if (!DraftStore.hasContent(snapshot, defaultTitle)) return;
+
+    const timeout = setTimeout(() => {
+      autosaveTimerRef.current = null;
+      autosaveRef.current = DraftStore.save(currentDraftId, snapshot)
+        .then((draft) =>
+          setDrafts((current) => [draft, ...current.filter((d) => d.id !== draft.id)])
+        )
+        .catch((error) => console.warn('Failed to autosave draft:', error));
+    }, 1000);
+    autosaveTimerRef.current = timeout;
+
+    return () => clearTimeout(timeout);
+  }, [meetingInfo, notes, timestampMap, lineMeta, recordingStartTime, pauses, currentDraftId]);
+
   // Track unsaved changes
   useEffect(() => {
     // Có dữ liệu chưa lưu nếu:
     // 1. Đang recording
     // 2. Có audio/notes nhưng chưa save lần đầu
     // 3. Đã save nhưng notes bị sửa đổi
-    const notesModified = isSaved && savedNotesSnapshot !== notes;
+    const notesModified = isSaved && savedNotesSnapshot !== notesFingerprint(notes, timestampMap, lineMeta);
     const hasData = isRecording || (!isSaved && (audioBlob !== null || notes.trim().length > 0)) || notesModified;
     setHasUnsavedChanges(hasData);
-  }, [isRecording, audioBlob, notes, isSaved, savedNotesSnapshot]);
+  }, [isRecording, audioBlob, notes, timestampMap, lineMeta, isSaved, savedNotesSnapshot]);
 
   // Prevent accidental page close/reload when recording or has unsaved data
   useEffect(() => {
@@ -53,14 +188,142 @@ export const App: React.FC = () => {
         // Chuẩn modern browsers
         e.preventDefault();
         // Chrome requires returnValue to be set
-        e.returnValue = 'Bạn có dữ liệu chưa lưu. Bạn có chắc muốn rời khỏi trang?';
+        e.returnValue = t('app.leaveWarning');
         return e.returnValue;
       }
     };
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [hasUnsavedChanges]);
+  }, [hasUnsavedChanges, t]);
+
+  const offerDraftResume = async () => {
+    const [latest] = await DraftStore.list();
+    if (!latest) return;
+
+    Modal.confirm({
+      title: t('app.resumeDraftTitle'),
+      content: t('app.resumeDraftContent', {
+        name: latest.name,
+        date: new Date(latest.updatedAt).toLocaleString(locale)
+      }),
+      okText: t('app.resumeDraftOk'),
+      cancelText: t('common.discard'),
+      onOk: () => {
+        applySnapshot(latest);
+        setCurrentDraftId(latest.id);
+      },
+      onCancel: () => deleteDraft(latest.id)
+    });
+  };
+
+  const createSnapshot = (): MeetingSessionSnapshot => ({
+    meetingInfo,
+    notes,
+    timestamps: Array.from(timestampMap.entries()),
+    recordingStartTime,
+    pauses,
+    lineMeta: Array.from(lineMeta.entries())
+  });
+
+  const applySnapshot = (snapshot: MeetingSessionSnapshot) => {
+    setMeetingInfo(snapshot.meetingInfo);
+    setNotes(snapshot.notes);
+    setTimestampMap(new Map(snapshot.timestamps));
+    setLineMeta(new Map(snapshot.lineMeta ?? []));
+    setRecordingStartTime(snapshot.recordingStartTime);
+    setPauses(snapshot.pauses ?? []);
+    setEditorKey((key) => key + 1);
+  };
+
+  // Start over with another meeting; audio and save state belong to the previous one
+  const resetSession = (snapshot: MeetingSessionSnapshot) => {
+    applySnapshot(snapshot);
+    setAudioBlob(null);
+    setIsSaved(false);
+    setSavedNotesSnapshot('');
+    setRecovery(null);
+    setSavedProject(null);
+  };
+
+  const handleDraftSelect = async (id: string) => {
+    if (id === currentDraftId) return;
+
+    const draft = await DraftStore.get(id);
+    if (!draft) {
+      message.error(t('app.draftNotFound'));
+      return;
+    }
+
+    resetSession(draft);
+    setCurrentDraftId(draft.id);
+  };
+
+  const handleDraftCreate = () => {
+    const info = createDefaultMeetingInfo();
+    setDefaultTitle(info.title);
+    resetSession({ meetingInfo: info, notes: '', timestamps: [], recordingStartTime: 0 });
+    setCurrentDraftId(DraftStore.createId());
+  };
+
+  // Only the current draft is autosaved; its pending save is dropped, or finished first, so it cannot
+  // write the draft back after the delete
+  const deleteDraft = async (id: string) => {
+    if (id === currentDraftId && autosaveTimerRef.current) {
+      clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = null;
+    }
+    await autosaveRef.current;
+    await DraftStore.delete(id);
+    setDrafts((current) => current.filter((d) => d.id !== id));
+  };
+
+  const handleDraftDelete = async (id: string) => {
+    await deleteDraft(id);
+    if (id === currentDraftId) {
+      handleDraftCreate();
+    }
+  };
+
+  // Continue editing a project read back from disk; it gets its own draft
+  const handleProjectOpen = (loaded: LoadedProject, seekSeconds?: number) => {
+    if (audioBlob !== null && !isSaved) {
+      Modal.confirm({
+        title: t('app.discardRecordingTitle'),
+        content: t('app.discardRecordingContent'),
+        okText: t('app.discardRecordingOk'),
+        okButtonProps: { danger: true },
+        onOk: () => openProject(loaded, seekSeconds)
+      });
+      return;
+    }
+    openProject(loaded, seekSeconds);
+  };
+
+  const openProject = (loaded: LoadedProject, seekSeconds?: number) => {
+    resetSession(loaded.snapshot);
+    setAudioBlob(loaded.audioBlob);
+    setIsSaved(true);
+    setSavedNotesSnapshot(
+      notesFingerprint(
+        loaded.snapshot.notes,
+        new Map(loaded.snapshot.timestamps),
+        new Map(loaded.snapshot.lineMeta ?? [])
+      )
+    );
+    setSavedProject(loaded.project);
+    setCurrentDraftId(DraftStore.createId());
+    setView('editor');
+    setPendingSeek(seekSeconds ?? null);
+  };
+
+  // The player listens once the editor view is mounted; it waits for the recording to load itself
+  useEffect(() => {
+    if (pendingSeek === null || view !== 'editor') return;
+
+    window.dispatchEvent(new CustomEvent('seek-audio', { detail: { time: pendingSeek } }));
+    setPendingSeek(null);
+  }, [pendingSeek, view]);
 
   // Clear unsaved changes flag after successful save
   const handleAudioBlobChange = (blob: Blob | null) => {
@@ -70,47 +333,122 @@ export const App: React.FC = () => {
   const handleSaveComplete = () => {
     setIsSaved(true);
     setHasUnsavedChanges(false);
-    setSavedNotesSnapshot(notes); // Save snapshot to detect future changes
+    setSavedNotesSnapshot(notesFingerprint(notes, timestampMap, lineMeta)); // Save snapshot to detect future changes
+
+    // The project files now hold this meeting, so its draft is no longer needed
+    deleteDraft(currentDraftId).catch((error) => console.warn('Failed to remove draft:', error));
   };
 
   return (
     <div className="app-container">
       <header className="app-header">
-        <h1>📝 Live Meeting Notes</h1>
+        <h1>📝 {t('app.title')}</h1>
+        <Segmented
+          value={view}
+          onChange={(value) => setView(value as AppView)}
+          disabled={isRecording}
+          options={[
+            { label: `📝 ${t('app.viewEditor')}`, value: 'editor' },
+            { label: `📚 ${t('app.viewLibrary')}`, value: 'library' },
+            { label: `🔎 ${t('app.viewSearch')}`, value: 'search' }
+          ]}
+        />
         <div className="status-indicator">
-          {navigator.onLine ? '🌐 Online' : '📴 Offline'}
-          {hasUnsavedChanges && <span className="unsaved-indicator" title="Bạn có dữ liệu chưa lưu">⚠️ Chưa lưu</span>}
+          {navigator.onLine ? `🌐 ${t('app.online')}` : `📴 ${t('app.offline')}`}
+          {hasUnsavedChanges && (
+            <span className="unsaved-indicator" title={t('app.unsavedTooltip')}>⚠️ {t('app.unsaved')}</span>
+          )}
+          <Select<AppLanguage>
+            size="small"
+            value={language}
+            onChange={setLanguage}
+            className="language-select"
+            title={t('app.language')}
+            options={(Object.keys(LANGUAGES) as AppLanguage[]).map((value) => ({
+              value,
+              label: LANGUAGES[value].label
+            }))}
+          />
+          <Button size="small" onClick={() => setPaletteOpen(true)} title={shortcutTitle('commandPalette')}>
+            ⌘
+          </Button>
+          <Button size="small" onClick={() => setShortcutSettingsOpen(true)} title={shortcutTitle('shortcutSettings')}>
+            ⌨
+          </Button>
         </div>
       </header>
 
-      <MetadataPanel meetingInfo={meetingInfo} onChange={setMeetingInfo} />
-
-      <RecordingControls
-        folderPath={folderPath}
-        onFolderSelect={setFolderPath}
-        isRecording={isRecording}
-        onRecordingChange={setIsRecording}
-        onAudioBlobChange={handleAudioBlobChange}
-        onSaveComplete={handleSaveComplete}
-        meetingInfo={meetingInfo}
-        notes={notes}
-        timestampMap={timestampMap}
-        recordingStartTime={recordingStartTime}
-        onRecordingStartTimeChange={setRecordingStartTime}
-        audioBlob={audioBlob}
-        isSaved={isSaved}
-        hasUnsavedChanges={hasUnsavedChanges}
-      />
-
-      <NotesEditor
-        notes={notes}
-        onNotesChange={setNotes}
-        timestampMap={timestampMap}
-        onTimestampMapChange={setTimestampMap}
-        recordingStartTime={recordingStartTime}
-      />
-
-      <AudioPlayer audioBlob={audioBlob} />
+      <CommandPalette open={paletteOpen} onClose={() => setPaletteOpen(false)} />
+      <ShortcutSettings open={shortcutSettingsOpen} onClose={() => setShortcutSettingsOpen(false)} />
+
+      {view === 'library' ? (
+        <MeetingLibrary
+          fileManager={fileManager}
+          folderPath={folderPath}
+          folderAccess={folderAccess}
+          onProjectOpen={handleProjectOpen}
+        />
+      ) : view === 'search' ? (
+        <MeetingSearch
+          fileManager={fileManager}
+          folderPath={folderPath}
+          onProjectOpen={handleProjectOpen}
+        />
+      ) : (
+        <>
+          <MetadataPanel
+            meetingInfo={meetingInfo}
+            onChange={setMeetingInfo}
+            drafts={drafts}
+            currentDraftId={currentDraftId}
+            onDraftSelect={handleDraftSelect}
+            onDraftCreate={handleDraftCreate}
+            onDraftDelete={handleDraftDelete}
+            draftSwitchDisabled={isRecording || (audioBlob !== null && !isSaved)}
+          />
+
+          <RecordingControls
+            folderPath={folderPath}
+            folderAccess={folderAccess}
+            isRecording={isRecording}
+            onRecordingChange={setIsRecording}
+            onAudioBlobChange={handleAudioBlobChange}
+            onSaveComplete={handleSaveComplete}
+            meetingInfo={meetingInfo}
+            notes={notes}
+            timestampMap={timestampMap}
+            lineMeta={lineMeta}
+            recordingStartTime={recordingStartTime}
+            onRecordingStartTimeChange={setRecordingStartTime}
+            pauses={pauses}
+            onPausesChange={setPauses}
+            audioBlob={audioBlob}
+            isSaved={isSaved}
+            hasUnsavedChanges={hasUnsavedChanges}
+            recovery={recovery}
+            onRecoverySaved={() => setRecovery(null)}
+            fileManager={fileManager}
+            savedProject={savedProject}
+            onSavedProjectChange={setSavedProject}
+            onProjectOpen={handleProjectOpen}
+          />
+
+          <NotesEditor
+            key={editorKey}
+            notes={notes}
+            onNotesChange={setNotes}
+            timestampMap={timestampMap}
+            onTimestampMapChange={setTimestampMap}
+            lineMeta={lineMeta}
+            onLineMetaChange={setLineMeta}
+            speakers={speakers}
+            recordingStartTime={recordingStartTime}
+            pauses={pauses}
+          />
+
+          <AudioPlayer audioBlob={audioBlob} noteLines={noteLines} />
+        </>
+      )}
     </div>
   );
 };
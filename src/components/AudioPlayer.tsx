@@ -1,22 +1,67 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Button, Space, Slider } from 'antd';
+import { Button, InputNumber, Select, Space, Slider, message } from 'antd';
 import {
   PlayCircleOutlined,
   PauseCircleOutlined,
   StepBackwardOutlined,
-  StepForwardOutlined
+  StepForwardOutlined,
+  ZoomInOutlined,
+  FontSizeOutlined,
+  CloseCircleOutlined
 } from '@ant-design/icons';
+import WaveSurfer from 'wavesurfer.js';
+import RegionsPlugin from 'wavesurfer.js/dist/plugins/regions.esm.js';
+import { MetadataBuilder } from '../services/metadataBuilder';
+import { PlaybackPreferences, PLAYBACK_RATES } from '../services/playbackPreferences';
+import { useShortcuts, useShortcutTitle } from '../hooks/useShortcuts';
+import { useI18n } from '../i18n/I18nProvider';
+import type { NoteLine, PlaybackLoop, PlaybackSettings } from '../types/types';
+
+// Pixels per second of audio; 0 fits the whole recording into the view
+const MAX_ZOOM = 200;
+
+const LOOP_REGION_ID = 'ab-loop';
+
+// Wavesurfer fetches and decodes the whole recording, so long ones keep only the seek slider
+const MAX_WAVEFORM_BYTES = 150 * 1024 * 1024;
+const MAX_WAVEFORM_SECONDS = 2 * 60 * 60;
 
 interface Props {
   audioBlob: Blob | null;
+  // Timestamped note lines shown as markers on the waveform
+  noteLines: NoteLine[];
 }
 
-export const AudioPlayer: React.FC<Props> = ({ audioBlob }) => {
+export const AudioPlayer: React.FC<Props> = ({ audioBlob, noteLines }) => {
+  const { t } = useI18n();
   const audioRef = useRef<HTMLAudioElement>(null);
+  const waveformRef = useRef<HTMLDivElement>(null);
+  const wavesurferRef = useRef<WaveSurfer | null>(null);
+  const regionsRef = useRef<RegionsPlugin | null>(null);
+  const [waveformReady, setWaveformReady] = useState(false);
+  const [zoom, setZoom] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const trackRef = useRef<HTMLTrackElement>(null);
+  const captionRef = useRef<HTMLDivElement>(null);
+  const captionsInputRef = useRef<HTMLInputElement>(null);
+  const [captions, setCaptions] = useState<{ url: string; fileName: string } | null>(null);
+  const [playback, setPlayback] = useState<PlaybackSettings>(() =>
+    PlaybackPreferences.loadSettings()
+  );
+  const [loop, setLoop] = useState<PlaybackLoop | null>(null);
+  // Read by the audio listener, which is registered once per source
+  const loopRef = useRef<PlaybackLoop | null>(null);
+  loopRef.current = loop;
+  const hotkeyTitle = useShortcutTitle();
+  // Waits for the duration; streamed recordings report Infinity and are judged by size alone
+  const showWaveform =
+    audioBlob !== null &&
+    audioBlob.size <= MAX_WAVEFORM_BYTES &&
+    duration > 0 &&
+    !(Number.isFinite(duration) && duration > MAX_WAVEFORM_SECONDS);
 
   // Update audio source when blob changes
   useEffect(() => {
@@ -40,7 +85,18 @@ export const AudioPlayer: React.FC<Props> = ({ audioBlob }) => {
     const audio = audioRef.current;
     if (!audio) return;
 
-    const updateTime = () => setCurrentTime(audio.currentTime);
+    // NotesEditor follows the playback position, e.g. to re-stamp a line
+    const updateTime = () => {
+      // Jump back to A once playback passes B
+      const currentLoop = loopRef.current;
+      if (currentLoop && currentLoop.end !== null && audio.currentTime >= currentLoop.end) {
+        audio.currentTime = currentLoop.start;
+      }
+      setCurrentTime(audio.currentTime);
+      window.dispatchEvent(
+        new CustomEvent('audio-timeupdate', { detail: { time: audio.currentTime } })
+      );
+    };
     const updateDuration = () => setDuration(audio.duration);
     const handleEnded = () => setIsPlaying(false);
 
@@ -52,20 +108,173 @@ export const AudioPlayer: React.FC<Props> = ({ audioBlob }) => {
       audio.removeEventListener('timeupdate', updateTime);
       audio.removeEventListener('loadedmetadata', updateDuration);
       audio.removeEventListener('ended', handleEnded);
+      window.dispatchEvent(new CustomEvent('audio-timeupdate', { detail: { time: null } }));
     };
   }, [audioUrl]);
 
-  // Listen for seek events from NotesEditor
+  // Render the waveform from the same audio element that plays the recording
+  useEffect(() => {
+    const audio = audioRef.current;
+    const container = waveformRef.current;
+    if (!audioUrl || !showWaveform || !audio || !container) return;
+
+    const regions = RegionsPlugin.create();
+    const wavesurfer = WaveSurfer.create({
+      container,
+      media: audio,
+      height: 80,
+      waveColor: '#4a4a4a',
+      progressColor: '#4096ff',
+      cursorColor: '#ffffff',
+      dragToSeek: true,
+      plugins: [regions]
+    });
+
+    wavesurfer.on('ready', () => setWaveformReady(true));
+    wavesurfer.on('error', (error) => console.warn('Failed to render waveform:', error));
+    // Clicking a marker seeks to its note instead of the clicked pixel
+    regions.on('region-clicked', (region, e) => {
+      e.stopPropagation();
+      audio.currentTime = region.start;
+      setCurrentTime(region.start);
+    });
+    // The loop region can be dragged and resized on the waveform
+    regions.on('region-updated', (region) => {
+      if (region.id === LOOP_REGION_ID) {
+        setLoop({ start: region.start, end: region.end > region.start ? region.end : null });
+      }
+    });
+
+    wavesurferRef.current = wavesurfer;
+    regionsRef.current = regions;
+    setZoom(0);
+    setLoop(null);
+
+    return () => {
+      wavesurfer.destroy();
+      wavesurferRef.current = null;
+      regionsRef.current = null;
+      setWaveformReady(false);
+    };
+  }, [audioUrl, showWaveform]);
+
+  // Redraw note markers whenever notes or their timestamps change
+  useEffect(() => {
+    const regions = regionsRef.current;
+    if (!regions || !waveformReady) return;
+
+    regions.clearRegions();
+    const audioDuration = wavesurferRef.current?.getDuration() ?? 0;
+
+    noteLines
+      .filter((line) => line.text.length > 0 && line.audioOffsetMs / 1000 <= audioDuration)
+      .forEach((line) => {
+        const region = regions.addRegion({
+          start: line.audioOffsetMs / 1000,
+          color: line.highlight ? '#ff4d4f' : '#faad14',
+          drag: false,
+          resize: false
+        });
+        region.element?.setAttribute(
+          'title',
+          `${line.highlight ? '★ ' : ''}${MetadataBuilder.formatDuration(line.audioOffsetMs)} — ${line.text}`
+        );
+      });
+
+    if (loop) {
+      regions.addRegion({
+        id: LOOP_REGION_ID,
+        start: loop.start,
+        end: loop.end ?? undefined,
+        color: 'rgba(64, 150, 255, 0.25)',
+        drag: loop.end !== null,
+        resize: loop.end !== null
+      });
+    }
+  }, [noteLines, waveformReady, loop]);
+
+  // The element resets playbackRate to defaultPlaybackRate whenever a new source loads
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.preservesPitch = true;
+    audio.defaultPlaybackRate = playback.rate;
+    audio.playbackRate = playback.rate;
+  }, [playback.rate, audioUrl]);
+
+  useEffect(() => {
+    if (waveformReady) {
+      wavesurferRef.current?.zoom(zoom);
+    }
+  }, [zoom, waveformReady]);
+
+  // The browser parses the loaded track; audio elements never render cues, so active
+  // cues are drawn into the caption box instead
+  useEffect(() => {
+    const track = trackRef.current?.track;
+    const trackElement = trackRef.current;
+    if (!captions || !track || !trackElement) return;
+
+    track.mode = 'hidden';
+    const showActiveCues = () => {
+      const cues = Array.from(track.activeCues ?? []) as VTTCue[];
+      captionRef.current?.replaceChildren(
+        ...cues.map((cue) => {
+          const line = document.createElement('div');
+          line.appendChild(cue.getCueAsHTML());
+          return line;
+        })
+      );
+    };
+    const handleError = () => {
+      message.error(t('player.captionsFailed', { file: captions.fileName }));
+      setCaptions(null);
+    };
+
+    track.addEventListener('cuechange', showActiveCues);
+    trackElement.addEventListener('error', handleError);
+    return () => {
+      track.removeEventListener('cuechange', showActiveCues);
+      trackElement.removeEventListener('error', handleError);
+      captionRef.current?.replaceChildren();
+    };
+  }, [captions]);
+
+  useEffect(() => {
+    return () => {
+      if (captions) URL.revokeObjectURL(captions.url);
+    };
+  }, [captions]);
+
+  const handleCaptionsSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setCaptions({ url: URL.createObjectURL(file), fileName: file.name });
+  };
+
+  // Listen for seek events from NotesEditor and the meeting search
   useEffect(() => {
     const handleSeek = (e: Event) => {
       const customEvent = e as CustomEvent;
       const time = customEvent.detail.time;
-      if (audioRef.current) {
-        audioRef.current.currentTime = time;
+      const audio = audioRef.current;
+      if (!audio) return;
+
+      const seek = () => {
+        audio.currentTime = time;
         setCurrentTime(time);
         if (!isPlaying) {
           handlePlay();
         }
+      };
+      // A project opened from the meeting search seeks before its recording has loaded
+      if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+        seek();
+      } else {
+        audio.addEventListener('loadedmetadata', seek, { once: true });
       }
     };
 
@@ -73,8 +282,14 @@ export const AudioPlayer: React.FC<Props> = ({ audioBlob }) => {
     return () => window.removeEventListener('seek-audio', handleSeek);
   }, [isPlaying]);
 
-  const handlePlay = async () => {
-    if (!audioRef.current) return;
+  // Resuming from the controls rewinds a little; seeking to a note plays from the note itself
+  const handlePlay = async (resume = false) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (resume && playback.autoRewindSeconds > 0 && audio.currentTime > 0 && !audio.ended) {
+      audio.currentTime = Math.max(0, audio.currentTime - playback.autoRewindSeconds);
+    }
 
     try {
       await audioRef.current.play();
@@ -90,7 +305,7 @@ export const AudioPlayer: React.FC<Props> = ({ audioBlob }) => {
     setIsPlaying(false);
   };
 
-  const handleSeek = (value: number) => {
+  const handleSliderSeek = (value: number) => {
     if (!audioRef.current) return;
     audioRef.current.currentTime = value;
     setCurrentTime(value);
@@ -98,17 +313,56 @@ export const AudioPlayer: React.FC<Props> = ({ audioBlob }) => {
 
   const handleSkipBackward = () => {
     if (!audioRef.current) return;
-    audioRef.current.currentTime = Math.max(0, audioRef.current.currentTime - 10);
+    audioRef.current.currentTime = Math.max(
+      0,
+      audioRef.current.currentTime - playback.skipBackSeconds
+    );
   };
 
   const handleSkipForward = () => {
     if (!audioRef.current) return;
     audioRef.current.currentTime = Math.min(
       duration,
-      audioRef.current.currentTime + 10
+      audioRef.current.currentTime + playback.skipForwardSeconds
     );
   };
 
+  const handlePlaybackChange = (settings: PlaybackSettings) => {
+    setPlayback(settings);
+    PlaybackPreferences.saveSettings(settings);
+  };
+
+  // A keeps a later B; B has to come after A
+  const handleLoopStart = () => {
+    const time = audioRef.current?.currentTime ?? 0;
+    setLoop({ start: time, end: loop?.end != null && loop.end > time ? loop.end : null });
+  };
+
+  const handleLoopEnd = () => {
+    const time = audioRef.current?.currentTime ?? 0;
+    if (!loop || time <= loop.start) {
+      message.info(t('player.loopNeedsStart'));
+      return;
+    }
+    setLoop({ ...loop, end: time });
+  };
+
+  const stepRate = (direction: 1 | -1) =>
+    handlePlaybackChange({ ...playback, rate: PlaybackPreferences.stepRate(playback.rate, direction) });
+
+  // Player keys use Alt by default so they also work while typing in a note line
+  const hasAudio = audioBlob !== null;
+  useShortcuts({
+    togglePlay: hasAudio && (() => (isPlaying ? handlePause() : handlePlay(true))),
+    skipBack: hasAudio && handleSkipBackward,
+    skipForward: hasAudio && handleSkipForward,
+    slower: hasAudio && (() => stepRate(-1)),
+    faster: hasAudio && (() => stepRate(1)),
+    loopStart: hasAudio && handleLoopStart,
+    loopEnd: hasAudio && handleLoopEnd,
+    clearLoop: hasAudio && loop !== null && (() => setLoop(null))
+  });
+
   const formatTime = (seconds: number): string => {
     if (isNaN(seconds)) return '00:00:00';
 
@@ -125,7 +379,7 @@ export const AudioPlayer: React.FC<Props> = ({ audioBlob }) => {
     return (
       <div className="audio-player disabled">
         <div className="player-info">
-          📢 No audio available. Record a meeting to see playback controls.
+          📢 {t('player.noAudio')}
         </div>
       </div>
     );
@@ -133,7 +387,25 @@ export const AudioPlayer: React.FC<Props> = ({ audioBlob }) => {
 
   return (
     <div className="audio-player">
-      <audio ref={audioRef} src={audioUrl || undefined} preload="metadata" />
+      <audio ref={audioRef} src={audioUrl || undefined} preload="metadata">
+        {captions && (
+          <track
+            key={captions.url}
+            ref={trackRef}
+            kind="captions"
+            src={captions.url}
+            label={captions.fileName}
+            default
+          />
+        )}
+      </audio>
+      <input
+        ref={captionsInputRef}
+        type="file"
+        accept=".vtt,text/vtt"
+        style={{ display: 'none' }}
+        onChange={handleCaptionsSelected}
+      />
 
       <div className="player-controls">
         <Space size="middle">
@@ -141,19 +413,20 @@ export const AudioPlayer: React.FC<Props> = ({ audioBlob }) => {
             icon={<StepBackwardOutlined />}
             onClick={handleSkipBackward}
             size="large"
-            title="Skip backward 10 seconds"
+            title={hotkeyTitle('skipBack')}
           >
-            -10s
+            -{playback.skipBackSeconds}s
           </Button>
 
           {!isPlaying ? (
             <Button
               type="primary"
               icon={<PlayCircleOutlined />}
-              onClick={handlePlay}
+              onClick={() => handlePlay(true)}
               size="large"
+              title={hotkeyTitle('togglePlay')}
             >
-              Play
+              {t('player.play')}
             </Button>
           ) : (
             <Button
@@ -161,8 +434,9 @@ export const AudioPlayer: React.FC<Props> = ({ audioBlob }) => {
               icon={<PauseCircleOutlined />}
               onClick={handlePause}
               size="large"
+              title={hotkeyTitle('togglePlay')}
             >
-              Pause
+              {t('player.pause')}
             </Button>
           )}
 
@@ -170,24 +444,122 @@ export const AudioPlayer: React.FC<Props> = ({ audioBlob }) => {
             icon={<StepForwardOutlined />}
             onClick={handleSkipForward}
             size="large"
-            title="Skip forward 10 seconds"
+            title={hotkeyTitle('skipForward')}
           >
-            +10s
+            +{playback.skipForwardSeconds}s
           </Button>
+
+          {captions ? (
+            <Button
+              icon={<CloseCircleOutlined />}
+              onClick={() => setCaptions(null)}
+              size="large"
+              title={captions.fileName}
+            >
+              {t('player.removeCaptions')}
+            </Button>
+          ) : (
+            <Button
+              icon={<FontSizeOutlined />}
+              onClick={() => captionsInputRef.current?.click()}
+              size="large"
+              title={t('player.loadCaptionsTooltip')}
+            >
+              {t('player.loadCaptions')}
+            </Button>
+          )}
         </Space>
       </div>
 
       <div className="player-progress">
         <span className="time-display">{formatTime(currentTime)}</span>
+        <div className="player-timeline">
+          {showWaveform && <div ref={waveformRef} className="waveform" />}
+          {/* Seeking stays possible while the waveform loads, fails or is skipped */}
+          {!waveformReady && (
+            <Slider
+              min={0}
+              max={Number.isFinite(duration) && duration > 0 ? duration : 100}
+              value={currentTime}
+              onChange={handleSliderSeek}
+              tooltip={{ formatter: (value: number | undefined) => formatTime(value || 0) }}
+              className="audio-slider"
+            />
+          )}
+        </div>
+        <span className="time-display">{formatTime(duration)}</span>
+      </div>
+
+      {audioBlob && duration > 0 && !showWaveform && (
+        <div className="waveform-skipped">{t('player.waveformSkipped')}</div>
+      )}
+
+      {captions && <div ref={captionRef} className="player-captions" />}
+
+      <div className="playback-settings">
+        <Select<number>
+          value={playback.rate}
+          onChange={(rate) => handlePlaybackChange({ ...playback, rate })}
+          className="playback-rate-select"
+          title={`${hotkeyTitle('slower')} / ${hotkeyTitle('faster')}`}
+          options={PLAYBACK_RATES.map((rate) => ({ value: rate, label: `${rate}×` }))}
+        />
+        <InputNumber
+          min={1}
+          max={60}
+          value={playback.skipBackSeconds}
+          onChange={(seconds) => handlePlaybackChange({ ...playback, skipBackSeconds: seconds ?? 5 })}
+          addonBefore="⏪"
+          addonAfter="s"
+          title={t('player.skipBackSeconds')}
+          className="playback-seconds-input"
+        />
+        <InputNumber
+          min={1}
+          max={60}
+          value={playback.skipForwardSeconds}
+          onChange={(seconds) => handlePlaybackChange({ ...playback, skipForwardSeconds: seconds ?? 10 })}
+          addonBefore="⏩"
+          addonAfter="s"
+          title={t('player.skipForwardSeconds')}
+          className="playback-seconds-input"
+        />
+        <InputNumber
+          min={0}
+          max={30}
+          value={playback.autoRewindSeconds}
+          onChange={(seconds) => handlePlaybackChange({ ...playback, autoRewindSeconds: seconds ?? 0 })}
+          addonBefore="↺"
+          addonAfter="s"
+          title={t('player.autoRewindTooltip')}
+          className="playback-seconds-input"
+        />
+
+        <Space.Compact>
+          <Button onClick={handleLoopStart} title={hotkeyTitle('loopStart')}>A</Button>
+          <Button onClick={handleLoopEnd} disabled={!loop} title={hotkeyTitle('loopEnd')}>B</Button>
+          <Button onClick={() => setLoop(null)} disabled={!loop} title={hotkeyTitle('clearLoop')}>
+            <CloseCircleOutlined />
+          </Button>
+        </Space.Compact>
+        {loop && (
+          <span className="loop-range">
+            🔁 {formatTime(loop.start)} – {loop.end !== null ? formatTime(loop.end) : '…'}
+          </span>
+        )}
+      </div>
+
+      <div className="waveform-zoom">
+        <ZoomInOutlined />
         <Slider
           min={0}
-          max={duration || 100}
-          value={currentTime}
-          onChange={handleSeek}
-          tooltip={{ formatter: (value: number | undefined) => formatTime(value || 0) }}
-          className="audio-slider"
+          max={MAX_ZOOM}
+          value={zoom}
+          onChange={setZoom}
+          disabled={!waveformReady}
+          tooltip={{ formatter: (value: number | undefined) => (value ? `${value} px/s` : t('player.zoomFit')) }}
+          className="zoom-slider"
         />
-        <span className="time-display">{formatTime(duration)}</span>
       </div>
     </div>
   );
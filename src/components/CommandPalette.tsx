@@ -0,0 +1,94 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Input, Modal } from 'antd';
+import { Shortcuts, SHORTCUT_ACTIONS } from '../services/shortcuts';
+import { useShortcutBindings } from '../hooks/useShortcuts';
+import { useI18n } from '../i18n/I18nProvider';
+import type { ShortcutAction } from '../types/types';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Every registered action, searchable; actions unavailable right now are shown disabled
+export const CommandPalette: React.FC<Props> = ({ open, onClose }) => {
+  const { t } = useI18n();
+  const bindings = useShortcutBindings();
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+
+  const commands = useMemo(() => {
+    const needle = query.trim().toLocaleLowerCase();
+    return (Object.keys(SHORTCUT_ACTIONS) as ShortcutAction[])
+      .filter((action) => action !== 'commandPalette')
+      .map((action) => ({
+        action,
+        label: t(SHORTCUT_ACTIONS[action].label),
+        available: Shortcuts.isAvailable(action)
+      }))
+      .filter((command) => command.label.toLocaleLowerCase().includes(needle))
+      .sort((a, b) => Number(b.available) - Number(a.available));
+  }, [query, open, t]);
+
+  useEffect(() => {
+    if (open) {
+      setQuery('');
+      setSelected(0);
+    }
+  }, [open]);
+
+  const runCommand = (action: ShortcutAction) => {
+    if (!Shortcuts.isAvailable(action)) return;
+    onClose();
+    // Let the modal hand focus back before the action moves it
+    setTimeout(() => Shortcuts.run(action), 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelected((current) => Math.min(commands.length - 1, Math.max(0, current + step)));
+    } else if (e.key === 'Enter' && commands[selected]) {
+      e.preventDefault();
+      runCommand(commands[selected].action);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onCancel={onClose}
+      footer={null}
+      closable={false}
+      width={520}
+      destroyOnHidden
+      className="command-palette"
+    >
+      <Input
+        autoFocus
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setSelected(0);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder={t('shortcuts.paletteSearch')}
+      />
+      <ul className="command-list">
+        {commands.map((command, index) => (
+          <li
+            key={command.action}
+            className={`command-item${index === selected ? ' selected' : ''}${command.available ? '' : ' disabled'}`}
+            onMouseEnter={() => setSelected(index)}
+            onClick={() => runCommand(command.action)}
+          >
+            <span>{command.label}</span>
+            {bindings[command.action] && <kbd>{bindings[command.action]}</kbd>}
+          </li>
+        ))}
+        {commands.length === 0 && <li className="command-empty">{t('shortcuts.noMatches')}</li>}
+      </ul>
+    </Modal>
+  );
+};
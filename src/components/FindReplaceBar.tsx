@@ -0,0 +1,138 @@
+import React from 'react';
+import { Button, Input, Space } from 'antd';
+import { useI18n } from '../i18n/I18nProvider';
+import type { NoteSearchOptions } from '../types/types';
+
+interface Props {
+  query: string;
+  onQueryChange: (query: string) => void;
+  replacement: string;
+  onReplacementChange: (replacement: string) => void;
+  options: NoteSearchOptions;
+  onOptionsChange: (options: NoteSearchOptions) => void;
+  // The query is a regular expression that does not compile
+  invalid: boolean;
+  matchCount: number;
+  // Index into the matches, -1 when there are none
+  current: number;
+  onNavigate: (step: 1 | -1) => void;
+  onReplace: () => void;
+  onReplaceAll: () => void;
+  // Unset when the current match's line has no position in the recording
+  onPlay?: () => void;
+  onClose: () => void;
+}
+
+// Find bar above the note lines: Enter / Shift+Enter step through matches, Escape closes
+export const FindReplaceBar: React.FC<Props> = ({
+  query,
+  onQueryChange,
+  replacement,
+  onReplacementChange,
+  options,
+  onOptionsChange,
+  invalid,
+  matchCount,
+  current,
+  onNavigate,
+  onReplace,
+  onReplaceAll,
+  onPlay,
+  onClose
+}) => {
+  const { t } = useI18n();
+
+  const status = invalid
+    ? t('find.invalidRegex')
+    : !query
+      ? ''
+      : matchCount > 0
+        ? t('find.count', { current: current + 1, total: matchCount })
+        : t('find.noResults');
+
+  const handleFindKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onNavigate(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const handleReplaceKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onReplace();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="find-replace-bar">
+      <div className="find-replace-row">
+        <Input
+          size="small"
+          autoFocus
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleFindKeyDown}
+          placeholder={t('find.placeholder')}
+          status={invalid ? 'error' : undefined}
+          className="find-input"
+        />
+        <Space.Compact>
+          <Button
+            size="small"
+            type={options.caseSensitive ? 'primary' : 'default'}
+            onClick={() => onOptionsChange({ ...options, caseSensitive: !options.caseSensitive })}
+            title={t('find.caseSensitive')}
+          >
+            Aa
+          </Button>
+          <Button
+            size="small"
+            type={options.regex ? 'primary' : 'default'}
+            onClick={() => onOptionsChange({ ...options, regex: !options.regex })}
+            title={t('find.regex')}
+          >
+            .*
+          </Button>
+        </Space.Compact>
+        <span className={`find-status${invalid ? ' invalid' : ''}`}>{status}</span>
+        <Space.Compact>
+          <Button size="small" onClick={() => onNavigate(-1)} disabled={matchCount === 0} title={t('find.previous')}>
+            ↑
+          </Button>
+          <Button size="small" onClick={() => onNavigate(1)} disabled={matchCount === 0} title={t('find.next')}>
+            ↓
+          </Button>
+        </Space.Compact>
+        <Button size="small" type="text" onClick={onClose} title={t('common.close')}>
+          ✕
+        </Button>
+      </div>
+      <div className="find-replace-row">
+        <Input
+          size="small"
+          value={replacement}
+          onChange={(e) => onReplacementChange(e.target.value)}
+          onKeyDown={handleReplaceKeyDown}
+          placeholder={t(options.regex ? 'find.replaceRegexPlaceholder' : 'find.replacePlaceholder')}
+          className="find-input"
+        />
+        <Button size="small" onClick={onReplace} disabled={matchCount === 0}>
+          {t('find.replace')}
+        </Button>
+        <Button size="small" onClick={onReplaceAll} disabled={matchCount === 0}>
+          {t('find.replaceAll')}
+        </Button>
+        <Button size="small" onClick={onPlay} disabled={!onPlay} title={t('find.playFromHereTooltip')}>
+          ▶ {t('find.playFromHere')}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Button, Select } from 'antd';
+import { UnlockOutlined } from '@ant-design/icons';
+import { useI18n } from '../i18n/I18nProvider';
+import type { FolderAccess } from '../hooks/useFolderAccess';
+
+interface Props {
+  folderAccess: FolderAccess;
+  disabled?: boolean;
+}
+
+export const FolderStatus: React.FC<Props> = ({ folderAccess, disabled = false }) => {
+  const { t } = useI18n();
+  const { folderPath, lapsedFolder, lapsedPermission, recentFolders } = folderAccess;
+  const switchOptions = recentFolders.map((folder) => ({ value: folder.id, label: folder.name }));
+
+  if (!folderPath && lapsedFolder) {
+    return (
+      <div className="folder-info folder-lapsed">
+        🔒 {t(lapsedPermission === 'denied' ? 'folder.denied' : 'folder.regrantNeeded', {
+          name: lapsedFolder.name
+        })}
+        {lapsedPermission !== 'denied' && (
+          <Button
+            size="small"
+            icon={<UnlockOutlined />}
+            onClick={folderAccess.regrantAccess}
+            disabled={disabled}
+          >
+            {t('folder.regrant')}
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  if (!folderPath) return null;
+
+  return (
+    <div className="folder-info">
+      📁 {t('folder.current')}: <strong>{folderPath}</strong>
+      {recentFolders.length > 1 && (
+        <Select
+          size="small"
+          className="recent-folder-select"
+          placeholder={t('folder.switch')}
+          value={null}
+          onChange={(id: string) => folderAccess.switchFolder(id)}
+          disabled={disabled}
+          options={switchOptions.slice(1)}
+        />
+      )}
+    </div>
+  );
+};
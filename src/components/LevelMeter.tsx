@@ -0,0 +1,32 @@
+import React from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface Props {
+  // RMS level between 0 and 1
+  level: number;
+  silent?: boolean;
+}
+
+// Speech RMS rarely exceeds ~0.3, so scale the bar logarithmically to keep it readable
+const toPercent = (level: number): number => {
+  if (level <= 0) return 0;
+  const db = 20 * Math.log10(level);
+  return Math.max(0, Math.min(100, ((db + 60) / 60) * 100));
+};
+
+export const LevelMeter: React.FC<Props> = ({ level, silent = false }) => {
+  const { t } = useI18n();
+  const percent = toPercent(level);
+
+  return (
+    <div
+      className={`level-meter${silent ? ' silent' : ''}`}
+      title={t(silent ? 'levelMeter.silent' : 'levelMeter.level')}
+    >
+      <div
+        className={`level-meter-bar${percent > 90 ? ' clipping' : ''}`}
+        style={{ width: `${percent}%` }}
+      />
+    </div>
+  );
+};
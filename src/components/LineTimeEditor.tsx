@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Button, Input, Popover, Space, message } from 'antd';
+import { MetadataBuilder } from '../services/metadataBuilder';
+import { useI18n } from '../i18n/I18nProvider';
+import type { PauseInterval } from '../types/types';
+
+const TIME_PATTERN = /^\d{2}:\d{2}:\d{2}(\.\d{1,3})?$/;
+
+interface Props {
+  // Unset for lines without a timestamp
+  datetimeMs?: number;
+  recordingStartTime: number;
+  pauses: PauseInterval[];
+  nudgeSeconds: number;
+  // A recording is loaded and its playback position is known
+  canStampPlayback: boolean;
+  onChange: (datetimeMs: number | undefined) => void;
+  onStampPlayback: () => void;
+}
+
+// Per-line timestamp editing. Exact times are offsets into the recording when there is
+// one, otherwise clock times on the line's day.
+export const LineTimeEditor: React.FC<Props> = ({
+  datetimeMs,
+  recordingStartTime,
+  pauses,
+  nudgeSeconds,
+  canStampPlayback,
+  onChange,
+  onStampPlayback
+}) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState('');
+  const hasRecording = recordingStartTime > 0;
+
+  const formatValue = (): string => {
+    if (datetimeMs === undefined) return '';
+    return hasRecording
+      ? MetadataBuilder.formatDuration(MetadataBuilder.toAudioOffset(datetimeMs, recordingStartTime, pauses))
+      : new Date(datetimeMs).toTimeString().slice(0, 8);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setValue(formatValue());
+    setOpen(next);
+  };
+
+  const handleNudge = (direction: 1 | -1) => {
+    if (datetimeMs === undefined) return;
+    onChange(datetimeMs + direction * nudgeSeconds * 1000);
+  };
+
+  const handleSetExact = () => {
+    const text = value.trim();
+    if (!TIME_PATTERN.test(text)) {
+      message.error(t('lineTime.invalid'));
+      return;
+    }
+
+    const ms = MetadataBuilder.parseTimestamp(text);
+    if (hasRecording) {
+      onChange(MetadataBuilder.fromAudioOffset(ms, recordingStartTime, pauses));
+    } else {
+      const date = new Date(datetimeMs ?? Date.now());
+      date.setHours(0, 0, 0, 0);
+      onChange(date.getTime() + ms);
+    }
+    setOpen(false);
+  };
+
+  const content = (
+    <div className="line-time-editor">
+      <Space>
+        <Button size="small" onClick={() => handleNudge(-1)} disabled={datetimeMs === undefined}>
+          -{nudgeSeconds}s
+        </Button>
+        <Button size="small" onClick={() => handleNudge(1)} disabled={datetimeMs === undefined}>
+          +{nudgeSeconds}s
+        </Button>
+      </Space>
+      <Space.Compact>
+        <Input
+          size="small"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onPressEnter={handleSetExact}
+          placeholder={t(hasRecording ? 'lineTime.recordingTime' : 'lineTime.clockTime')}
+          title={t(hasRecording ? 'lineTime.recordingTime' : 'lineTime.clockTime')}
+          className="line-time-input"
+        />
+        <Button size="small" onClick={handleSetExact}>
+          {t('lineTime.set')}
+        </Button>
+      </Space.Compact>
+      <Button
+        size="small"
+        onClick={() => {
+          onStampPlayback();
+          setOpen(false);
+        }}
+        disabled={!canStampPlayback}
+      >
+        ▶ {t('lineTime.stampPlayback')}
+      </Button>
+      <Button
+        size="small"
+        danger
+        onClick={() => {
+          onChange(undefined);
+          setOpen(false);
+        }}
+        disabled={datetimeMs === undefined}
+      >
+        {t('lineTime.remove')}
+      </Button>
+    </div>
+  );
+
+  return (
+    <Popover
+      trigger="click"
+      open={open}
+      onOpenChange={handleOpenChange}
+      content={content}
+      title={t('lineTime.title')}
+    >
+      <button
+        className={`line-time-btn${datetimeMs !== undefined ? ' active' : ''}`}
+        title={t('lineTime.title')}
+      >
+        ⏱
+      </button>
+    </Popover>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button, Input, Modal, Space, Table, message } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  ReloadOutlined,
+  FolderOpenOutlined,
+  FileWordOutlined,
+  FileSearchOutlined,
+  DownloadOutlined
+} from '@ant-design/icons';
+import { FileManagerService, FileDownloadService } from '../services/fileManager';
+import { ProjectLoader } from '../services/projectLoader';
+import { WordExporter } from '../services/wordExporter';
+import { MinutesExporter } from '../services/minutesExporter';
+import { MetadataBuilder } from '../services/metadataBuilder';
+import { MeetingIndex } from '../services/meetingIndex';
+import { FolderStatus } from './FolderStatus';
+import { useI18n } from '../i18n/I18nProvider';
+import type { FolderAccess } from '../hooks/useFolderAccess';
+import type { LoadedProject, ProjectSummary } from '../types/types';
+
+interface Props {
+  fileManager: FileManagerService;
+  folderPath: string;
+  folderAccess: FolderAccess;
+  onProjectOpen: (project: LoadedProject) => void;
+}
+
+export const MeetingLibrary: React.FC<Props> = ({
+  fileManager,
+  folderPath,
+  folderAccess,
+  onProjectOpen
+}) => {
+  const { t, exportLanguage } = useI18n();
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [filesProject, setFilesProject] = useState<ProjectSummary | null>(null);
+
+  const scanFolder = async () => {
+    if (!folderPath) return;
+
+    setLoading(true);
+    try {
+      const scanned = await ProjectLoader.scanFolder(fileManager);
+      setProjects(scanned);
+
+      // Keep the cross-meeting search index in step with the folder
+      const root = fileManager.getFolderHandle();
+      if (root) {
+        MeetingIndex.syncFolder(root, scanned).catch((error) =>
+          console.warn('Failed to update the search index:', error)
+        );
+      }
+    } catch (error: any) {
+      message.error(t('library.scanFailed', { error: error.message }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    scanFolder();
+  }, [folderPath]);
+
+  const filteredProjects = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return projects;
+
+    return projects.filter((project) =>
+      [project.title, project.host, project.date, project.projectName].some((value) =>
+        value.toLowerCase().includes(query)
+      )
+    );
+  }, [projects, filter]);
+
+  const handleOpen = async (project: ProjectSummary) => {
+    try {
+      const loaded = await ProjectLoader.loadFromFiles(project.files, project.directory);
+      onProjectOpen(loaded);
+      if (!loaded.hasNotes) {
+        message.warning(t('project.noNotes'));
+      }
+    } catch (error: any) {
+      message.error(t('project.openFailed', { error: error.message }));
+    }
+  };
+
+  const handleExportAgain = async (project: ProjectSummary) => {
+    try {
+      const loaded = await ProjectLoader.loadFromFiles(project.files);
+      if (!loaded.hasNotes) {
+        message.error(t('library.notesUnavailable'));
+        return;
+      }
+
+      const { meetingInfo, notes, lineMeta, timestamps, recordingStartTime, pauses } = loaded.snapshot;
+      const options = {
+        ...WordExporter.loadSettings(),
+        lineMeta: new Map(lineMeta ?? []),
+        timestampMap: new Map(timestamps),
+        recordingStartTime,
+        pauses,
+        language: exportLanguage,
+        duration: project.duration
+      };
+      const wordBlob = await WordExporter.createWordBlob(meetingInfo, notes, options);
+      await fileManager.saveWordFile(
+        wordBlob,
+        `${project.projectName}.docx`,
+        project.directory ?? undefined
+      );
+      const { extraFormats } = MinutesExporter.loadSettings();
+      for (const format of MinutesExporter.writableFormats(extraFormats, options)) {
+        const blob = await MinutesExporter.createBlob(format, meetingInfo, notes, options);
+        await fileManager.saveMinutesFile(
+          blob,
+          MinutesExporter.getFileName(project.projectName, format),
+          project.directory ?? undefined
+        );
+      }
+      message.success(t('library.regenerated', { file: `${project.projectName}.docx` }));
+      scanFolder();
+    } catch (error: any) {
+      message.error(t('library.exportFailed', { error: error.message }));
+    }
+  };
+
+  const handleDownloadFile = (file: File) => {
+    new FileDownloadService().downloadFile(file, file.name);
+  };
+
+  const columns: ColumnsType<ProjectSummary> = [
+    {
+      title: t('library.columnTitle'),
+      dataIndex: 'title',
+      sorter: (a, b) => a.title.localeCompare(b.title)
+    },
+    {
+      title: t('library.columnDate'),
+      dataIndex: 'date',
+      render: (_, project) => `${project.date} ${project.time}`.trim(),
+      sorter: (a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`),
+      defaultSortOrder: 'descend'
+    },
+    {
+      title: t('library.columnHost'),
+      dataIndex: 'host',
+      sorter: (a, b) => a.host.localeCompare(b.host)
+    },
+    {
+      title: t('library.columnDuration'),
+      dataIndex: 'duration',
+      render: (duration: number) => MetadataBuilder.formatDuration(duration),
+      sorter: (a, b) => a.duration - b.duration
+    },
+    {
+      title: t('library.columnAttendees'),
+      dataIndex: 'attendeeCount',
+      sorter: (a, b) => a.attendeeCount - b.attendeeCount
+    },
+    {
+      title: t('library.columnActions'),
+      key: 'actions',
+      render: (_, project) => (
+        <Space size="small">
+          <Button size="small" icon={<FolderOpenOutlined />} onClick={() => handleOpen(project)}>
+            {t('library.open')}
+          </Button>
+          <Button size="small" icon={<FileWordOutlined />} onClick={() => handleExportAgain(project)}>
+            {t('library.exportAgain')}
+          </Button>
+          <Button size="small" icon={<FileSearchOutlined />} onClick={() => setFilesProject(project)}>
+            {t('library.files')}
+          </Button>
+        </Space>
+      )
+    }
+  ];
+
+  if (!folderPath) {
+    return (
+      <div className="meeting-library disabled">
+        {folderAccess.lapsedFolder ? (
+          <FolderStatus folderAccess={folderAccess} />
+        ) : (
+          <div className="player-info">
+            📁 {t('library.selectFolder')}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="meeting-library">
+      <div className="library-toolbar">
+        <h3>📚 {t('library.title')} — {folderPath}</h3>
+        <Space>
+          <Input.Search
+            allowClear
+            placeholder={t('library.filterPlaceholder')}
+            value={filter}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFilter(e.target.value)}
+            className="library-filter"
+          />
+          <Button icon={<ReloadOutlined />} onClick={scanFolder} loading={loading}>
+            {t('library.rescan')}
+          </Button>
+        </Space>
+      </div>
+
+      <Table
+        rowKey={(project) => `${project.directory?.name ?? ''}/${project.projectName}`}
+        columns={columns}
+        dataSource={filteredProjects}
+        loading={loading}
+        size="middle"
+        pagination={{ pageSize: 20, hideOnSinglePage: true }}
+      />
+
+      <Modal
+        open={filesProject !== null}
+        title={filesProject ? t('library.filesTitle', { name: filesProject.projectName }) : ''}
+        footer={null}
+        onCancel={() => setFilesProject(null)}
+      >
+        <div className="library-file-list">
+          {filesProject?.files.map((file) => (
+            <div key={file.name} className="library-file">
+              <span>
+                {folderPath}/
+                {filesProject.directory && filesProject.directory !== fileManager.getFolderHandle()
+                  ? `${filesProject.directory.name}/`
+                  : ''}
+                {file.name}
+                <span className="library-file-size"> ({(file.size / 1024 / 1024).toFixed(2)} MB)</span>
+              </span>
+              <Button size="small" icon={<DownloadOutlined />} onClick={() => handleDownloadFile(file)} />
+            </div>
+          ))}
+        </div>
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Empty, Input, Modal, Select, Space, Spin, message } from 'antd';
+import { DeleteOutlined, FolderOpenOutlined, SyncOutlined } from '@ant-design/icons';
+import { FileManagerService } from '../services/fileManager';
+import { ProjectLoader } from '../services/projectLoader';
+import { MeetingIndex } from '../services/meetingIndex';
+import { MetadataBuilder } from '../services/metadataBuilder';
+import { useI18n } from '../i18n/I18nProvider';
+import type {
+  IndexedNoteLine,
+  LoadedProject,
+  MeetingIndexEntry,
+  MeetingSearchFilters,
+  MeetingSearchResult
+} from '../types/types';
+
+const SEARCH_DELAY_MS = 250;
+
+interface Props {
+  fileManager: FileManagerService;
+  folderPath: string;
+  // seekSeconds is set when a note line was chosen
+  onProjectOpen: (project: LoadedProject, seekSeconds?: number) => void;
+}
+
+interface Facets {
+  meetingCount: number;
+  hosts: string[];
+  attendees: string[];
+}
+
+// Text with the words matching the query marked
+const HighlightedText: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  MeetingIndex.findRanges(text, terms).forEach(([start, end]) => {
+    if (start < position) return;
+    parts.push(text.slice(position, start), <mark key={start}>{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+// Search every indexed meeting's info and notes; the index is filled from library scans and saves
+export const MeetingSearch: React.FC<Props> = ({ fileManager, folderPath, onProjectOpen }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<MeetingSearchFilters>({});
+  const [results, setResults] = useState<MeetingSearchResult[]>([]);
+  const [facets, setFacets] = useState<Facets>({ meetingCount: 0, hosts: [], attendees: [] });
+  const [searching, setSearching] = useState(false);
+  const [indexing, setIndexing] = useState(false);
+  // Bumped when the index changes so the current search runs again
+  const [indexVersion, setIndexVersion] = useState(0);
+
+  const terms = MeetingIndex.tokenize(query);
+  const hasCriteria = terms.length > 0 || Object.values(filters).some(Boolean);
+
+  useEffect(() => {
+    MeetingIndex.getFacets()
+      .then(setFacets)
+      .catch((error) => console.warn('Failed to read the search index:', error));
+  }, [indexVersion]);
+
+  useEffect(() => {
+    if (!hasCriteria) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const found = await MeetingIndex.search(query, filters);
+        if (!cancelled) setResults(found);
+      } catch (error: any) {
+        message.error(t('search.failed', { error: error.message }));
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, filters, indexVersion]);
+
+  const handleIndexFolder = async () => {
+    const root = fileManager.getFolderHandle();
+    if (!root) return;
+
+    setIndexing(true);
+    try {
+      await MeetingIndex.syncFolder(root, await ProjectLoader.scanFolder(fileManager));
+      setIndexVersion((version) => version + 1);
+      message.success(t('search.indexed', { folder: folderPath }));
+    } catch (error: any) {
+      message.error(t('search.indexFailed', { error: error.message }));
+    } finally {
+      setIndexing(false);
+    }
+  };
+
+  const handleClearIndex = () => {
+    Modal.confirm({
+      title: t('search.clearTitle'),
+      content: t('search.clearContent'),
+      okButtonProps: { danger: true },
+      onOk: async () => {
+        await MeetingIndex.clear();
+        setIndexVersion((version) => version + 1);
+      }
+    });
+  };
+
+  const handleOpen = async (entry: MeetingIndexEntry, line?: IndexedNoteLine) => {
+    try {
+      const loaded = await MeetingIndex.openProject(entry);
+      onProjectOpen(loaded, line ? line.offsetMs / 1000 : undefined);
+      if (!loaded.hasNotes) {
+        message.warning(t('project.noNotes'));
+      }
+    } catch (error: any) {
+      message.error(t('project.openFailed', { error: error.message }));
+    }
+  };
+
+  const updateFilter = (changes: Partial<MeetingSearchFilters>) => {
+    setFilters((current) => ({ ...current, ...changes }));
+  };
+
+  return (
+    <div className="meeting-search">
+      <div className="library-toolbar">
+        <h3>🔎 {t('search.title')}</h3>
+        <Space>
+          <span className="search-index-count">
+            {t('search.meetingCount', { count: facets.meetingCount })}
+          </span>
+          <Button
+            icon={<SyncOutlined />}
+            onClick={handleIndexFolder}
+            loading={indexing}
+            disabled={!folderPath}
+            title={folderPath ? undefined : t('library.selectFolder')}
+          >
+            {t('search.indexFolder')}
+          </Button>
+          <Button icon={<DeleteOutlined />} onClick={handleClearIndex} disabled={facets.meetingCount === 0}>
+            {t('search.clear')}
+          </Button>
+        </Space>
+      </div>
+
+      <Input.Search
+        allowClear
+        autoFocus
+        size="large"
+        placeholder={t('search.placeholder')}
+        value={query}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQuery(e.target.value)}
+        loading={searching}
+      />
+
+      <div className="search-filters">
+        <Space.Compact>
+          <Input
+            type="date"
+            value={filters.dateFrom ?? ''}
+            onChange={(e) => updateFilter({ dateFrom: e.target.value || undefined })}
+            title={t('search.dateFrom')}
+            className="search-date-input"
+          />
+          <Input
+            type="date"
+            value={filters.dateTo ?? ''}
+            onChange={(e) => updateFilter({ dateTo: e.target.value || undefined })}
+            title={t('search.dateTo')}
+            className="search-date-input"
+          />
+        </Space.Compact>
+        <Select
+          allowClear
+          showSearch
+          placeholder={t('search.host')}
+          value={filters.host}
+          onChange={(host?: string) => updateFilter({ host })}
+          options={facets.hosts.map((name) => ({ value: name, label: name }))}
+          className="search-person-select"
+        />
+        <Select
+          allowClear
+          showSearch
+          placeholder={t('search.attendee')}
+          value={filters.attendee}
+          onChange={(attendee?: string) => updateFilter({ attendee })}
+          options={facets.attendees.map((name) => ({ value: name, label: name }))}
+          className="search-person-select"
+        />
+      </div>
+
+      {facets.meetingCount === 0 ? (
+        <Empty description={t('search.emptyIndex')} />
+      ) : !hasCriteria ? (
+        <div className="player-info">💡 {t('search.hint')}</div>
+      ) : (
+        <Spin spinning={searching}>
+          {results.length === 0 && !searching ? (
+            <Empty description={t('search.noResults')} />
+          ) : (
+            <div className="search-results">
+              {results.map(({ entry, infoMatch, lines }) => (
+                <div key={entry.id} className="search-result">
+                  <div className="search-result-header">
+                    <div>
+                      <div className="search-result-title">
+                        <HighlightedText text={entry.title || entry.projectName} terms={infoMatch ? terms : []} />
+                      </div>
+                      <div className="search-result-meta">
+                        {[`${entry.date} ${entry.time}`.trim(), entry.host, `📁 ${entry.folderName}`]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </div>
+                    </div>
+                    <Button size="small" icon={<FolderOpenOutlined />} onClick={() => handleOpen(entry)}>
+                      {t('library.open')}
+                    </Button>
+                  </div>
+                  {lines.map((line) => (
+                    <button
+                      key={line.index}
+                      className="search-result-line"
+                      onClick={() => handleOpen(entry, line)}
+                      title={t('search.openAtLine')}
+                    >
+                      <span className="search-result-time">{MetadataBuilder.formatDuration(line.offsetMs)}</span>
+                      <span>
+                        <HighlightedText text={line.text} terms={terms} />
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </Spin>
+      )}
+    </div>
+  );
+};
@@ -1,15 +1,50 @@
-import React from 'react';
-import { Input, Collapse } from 'antd';
-import type { MeetingInfo } from '../types/types';
-
-const { TextArea } = Input;
+import React, { useEffect, useState } from 'react';
+import { Input, Collapse, Select, Button, Popconfirm } from 'antd';
+import { PlusOutlined, DeleteOutlined, SettingOutlined } from '@ant-design/icons';
+import { RosterEditor } from './RosterEditor';
+import { TemplateManager } from './TemplateManager';
+import { Attendees } from '../services/attendees';
+import { TemplateStore, DEFAULT_TEMPLATE_ID } from '../services/templateStore';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MeetingDraft, MeetingInfo, WordTemplate } from '../types/types';
 
 interface Props {
   meetingInfo: MeetingInfo;
   onChange: (info: MeetingInfo) => void;
+  drafts: MeetingDraft[];
+  currentDraftId: string;
+  onDraftSelect: (id: string) => void;
+  onDraftCreate: () => void;
+  onDraftDelete: (id: string) => void;
+  draftSwitchDisabled: boolean;
 }
 
-export const MetadataPanel: React.FC<Props> = ({ meetingInfo, onChange }) => {
+export const MetadataPanel: React.FC<Props> = ({
+  meetingInfo,
+  onChange,
+  drafts,
+  currentDraftId,
+  onDraftSelect,
+  onDraftCreate,
+  onDraftDelete,
+  draftSwitchDisabled
+}) => {
+  const { t } = useI18n();
+  const isDraftStored = drafts.some((d) => d.id === currentDraftId);
+  const [templates, setTemplates] = useState<WordTemplate[]>(() => [TemplateStore.defaultTemplate()]);
+  const [templateManagerOpen, setTemplateManagerOpen] = useState(false);
+
+  useEffect(() => {
+    TemplateStore.list()
+      .then(setTemplates)
+      .catch((error) => console.error('Failed to load templates:', error));
+  }, []);
+
+  // A deleted template falls back to the default when exporting, so show it that way too
+  const templateId = templates.some((t) => t.id === meetingInfo.templateId)
+    ? meetingInfo.templateId
+    : DEFAULT_TEMPLATE_ID;
+
   const handleChange = (field: keyof MeetingInfo, value: string) => {
     onChange({
       ...meetingInfo,
@@ -24,21 +59,57 @@ export const MetadataPanel: React.FC<Props> = ({ meetingInfo, onChange }) => {
       items={[
         {
           key: '1',
-          label: '📋 Meeting Information',
+          label: `📋 ${t('metadata.panelTitle')}`,
           children: (
             <div className="metadata-form">
+              <div className="form-row draft-bar">
+                <label>{t('metadata.draft')}:</label>
+                <div className="draft-bar-controls">
+                  <Select
+                    value={isDraftStored ? currentDraftId : undefined}
+                    onChange={onDraftSelect}
+                    disabled={draftSwitchDisabled}
+                    placeholder={t('metadata.draftPlaceholder')}
+                    className="draft-select"
+                    options={drafts.map((draft) => ({
+                      value: draft.id,
+                      label: `${draft.name} — ${new Date(draft.updatedAt).toLocaleString()}`
+                    }))}
+                  />
+                  <Button
+                    icon={<PlusOutlined />}
+                    onClick={onDraftCreate}
+                    disabled={draftSwitchDisabled}
+                    title={t('metadata.newDraftTooltip')}
+                  >
+                    {t('common.new')}
+                  </Button>
+                  <Popconfirm
+                    title={t('metadata.deleteDraftConfirm')}
+                    onConfirm={() => onDraftDelete(currentDraftId)}
+                    disabled={draftSwitchDisabled || !isDraftStored}
+                  >
+                    <Button
+                      icon={<DeleteOutlined />}
+                      disabled={draftSwitchDisabled || !isDraftStored}
+                      title={t('metadata.deleteDraftTooltip')}
+                    />
+                  </Popconfirm>
+                </div>
+              </div>
+
               <div className="form-row">
-                <label>Meeting Title:</label>
+                <label>{t('metadata.title')}:</label>
                 <Input
                   value={meetingInfo.title}
                   onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleChange('title', e.target.value)}
-                  placeholder="e.g., Weekly Team Meeting"
+                  placeholder={t('metadata.titlePlaceholder')}
                 />
               </div>
 
               <div className="form-row form-row-split">
                 <div className="form-field">
-                  <label>Date:</label>
+                  <label>{t('metadata.date')}:</label>
                   <Input
                     type="date"
                     value={meetingInfo.date}
@@ -47,7 +118,7 @@ export const MetadataPanel: React.FC<Props> = ({ meetingInfo, onChange }) => {
                 </div>
 
                 <div className="form-field">
-                  <label>Time:</label>
+                  <label>{t('metadata.time')}:</label>
                   <Input
                     type="time"
                     value={meetingInfo.time}
@@ -57,32 +128,54 @@ export const MetadataPanel: React.FC<Props> = ({ meetingInfo, onChange }) => {
               </div>
 
               <div className="form-row">
-                <label>Location:</label>
+                <label>{t('metadata.location')}:</label>
                 <Input
                   value={meetingInfo.location}
                   onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleChange('location', e.target.value)}
-                  placeholder="e.g., Conference Room A / Zoom"
+                  placeholder={t('metadata.locationPlaceholder')}
                 />
               </div>
 
               <div className="form-row">
-                <label>Host:</label>
+                <label>{t('metadata.host')}:</label>
                 <Input
                   value={meetingInfo.host}
                   onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleChange('host', e.target.value)}
-                  placeholder="Meeting host name"
+                  placeholder={t('metadata.hostPlaceholder')}
                 />
               </div>
 
               <div className="form-row">
-                <label>Attendees:</label>
-                <TextArea
-                  value={meetingInfo.attendees}
-                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleChange('attendees', e.target.value)}
-                  placeholder="Comma-separated names (e.g., Alice, Bob, Charlie)"
-                  rows={2}
+                <label>{t('metadata.attendees')}:</label>
+                <RosterEditor
+                  roster={Attendees.roster(meetingInfo)}
+                  onChange={(roster) => onChange(Attendees.withRoster(meetingInfo, roster))}
                 />
               </div>
+
+              <div className="form-row">
+                <label>{t('metadata.template')}:</label>
+                <div className="template-picker">
+                  <Select
+                    value={templateId}
+                    onChange={(id) => handleChange('templateId', id)}
+                    className="template-select"
+                    options={templates.map((template) => ({
+                      value: template.id,
+                      label: template.id === DEFAULT_TEMPLATE_ID ? t('templates.defaultName') : template.name
+                    }))}
+                  />
+                  <Button icon={<SettingOutlined />} onClick={() => setTemplateManagerOpen(true)}>
+                    {t('metadata.manageTemplates')}
+                  </Button>
+                </div>
+              </div>
+
+              <TemplateManager
+                open={templateManagerOpen}
+                onClose={() => setTemplateManagerOpen(false)}
+                onTemplatesChange={setTemplates}
+              />
             </div>
           )
         }
@@ -1,46 +1,121 @@
-import React, { useRef, useState } from 'react';
-import { Input } from 'antd';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Dropdown, Input, InputNumber, Select, message } from 'antd';
+import { MetadataBuilder } from '../services/metadataBuilder';
+import { NoteTiming } from '../services/noteTiming';
+import { NoteSearch } from '../services/noteSearch';
+import { LineTimeEditor } from './LineTimeEditor';
+import { FindReplaceBar } from './FindReplaceBar';
+import { useShortcuts, useShortcutTitle } from '../hooks/useShortcuts';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n';
+import type {
+  NoteLineMeta,
+  NoteLineType,
+  NoteMatch,
+  NoteSearchOptions,
+  NoteTimingSettings,
+  PauseInterval
+} from '../types/types';
 
 const { TextArea } = Input;
 
+const LINE_TYPES: Record<NoteLineType, { icon: string; label: MessageKey; keyCode: string }> = {
+  action: { icon: '✅', label: 'lineTypes.action', keyCode: 'KeyA' },
+  decision: { icon: '⚖️', label: 'lineTypes.decision', keyCode: 'KeyD' },
+  question: { icon: '❓', label: 'lineTypes.question', keyCode: 'KeyQ' }
+};
+
 interface Props {
   notes: string;
   onNotesChange: (notes: string) => void;
   timestampMap: Map<number, number>;
   onTimestampMapChange: (map: Map<number, number>) => void;
+  lineMeta: Map<number, NoteLineMeta>;
+  onLineMetaChange: (lineMeta: Map<number, NoteLineMeta>) => void;
+  // Names offered for speaker attribution; Alt+1..9 picks by position
+  speakers: string[];
   recordingStartTime: number;
+  pauses: PauseInterval[];
 }
 
+// Convert a position-keyed map (parent state) to line indexes
+const toLineIndexMap = <T,>(positionMap: Map<number, T>, lines: string[]): Map<number, T> => {
+  const lineMap = new Map<number, T>();
+  positionMap.forEach((value, position) => {
+    let currentPos = 0;
+    for (let i = 0; i < lines.length; i++) {
+      if (position === currentPos) {
+        lineMap.set(i, value);
+        break;
+      }
+      currentPos += lines[i].length + 1;
+    }
+  });
+  return lineMap;
+};
+
+// Convert line-indexed entries back to line start positions
+const toPositionMap = <T,>(lineMap: Map<number, T>, lines: string[]): Map<number, T> => {
+  const positionMap = new Map<number, T>();
+  lineMap.forEach((value, lineIndex) => {
+    const lineStartPos = lines.slice(0, lineIndex).join('\n').length + (lineIndex > 0 ? 1 : 0);
+    positionMap.set(lineStartPos, value);
+  });
+  return positionMap;
+};
+
+// Re-key line entries after `count` lines were inserted (count > 0) or removed (count < 0) at index
+const shiftLines = <T,>(lineMap: Map<number, T>, index: number, count: number): Map<number, T> => {
+  const shifted = new Map<number, T>();
+  lineMap.forEach((value, lineIndex) => {
+    if (lineIndex < index) {
+      shifted.set(lineIndex, value);
+    } else if (lineIndex >= index - Math.min(count, 0)) {
+      shifted.set(lineIndex + count, value);
+    }
+  });
+  return shifted;
+};
+
 export const NotesEditor: React.FC<Props> = ({
   notes,
   onNotesChange,
   timestampMap,
   onTimestampMapChange,
-  recordingStartTime
+  lineMeta,
+  onLineMetaChange,
+  speakers,
+  recordingStartTime,
+  pauses
 }) => {
+  const { t } = useI18n();
+  const shortcutTitle = useShortcutTitle();
   const [showTimestamps, setShowTimestamps] = useState(true);
+  const [timingSettings, setTimingSettings] = useState<NoteTimingSettings>(() =>
+    NoteTiming.loadSettings()
+  );
+  // Playback position in seconds, kept out of state so playing does not re-render every line
+  const playbackTimeRef = useRef<number | null>(null);
+  const [hasPlayback, setHasPlayback] = useState(false);
+  const [followPlayback, setFollowPlayback] = useState(true);
+  // Line whose timestamp window contains the playback position
+  const [activeLine, setActiveLine] = useState<number | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const findBarRef = useRef<HTMLDivElement>(null);
+  const [findOpen, setFindOpen] = useState(false);
+  const [findQuery, setFindQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [searchOptions, setSearchOptions] = useState<NoteSearchOptions>({ regex: false, caseSensitive: false });
+  const [currentMatch, setCurrentMatch] = useState(0);
   
-  // Use line-index-based timestamps (lineIndex → dateTimeMs) as source of truth
-  const [lineTimestamps, setLineTimestamps] = useState<Map<number, number>>(() => {
-    // Initialize from parent's timestampMap only once on mount
-    const initialLineTimestamps = new Map<number, number>();
-    const lines = notes.split('\n');
-    
-    timestampMap.forEach((time, position) => {
-      let currentPos = 0;
-      for (let i = 0; i < lines.length; i++) {
-        const lineStartPos = i === 0 ? 0 : currentPos;
-        if (position === lineStartPos) {
-          initialLineTimestamps.set(i, time);
-          break;
-        }
-        currentPos += lines[i].length + 1;
-      }
-    });
-    
-    return initialLineTimestamps;
-  });
+  // Use line-index-based timestamps (lineIndex → dateTimeMs) as source of truth,
+  // initialized from parent's timestampMap only once on mount
+  const [lineTimestamps, setLineTimestamps] = useState<Map<number, number>>(() =>
+    toLineIndexMap(timestampMap, notes.split('\n'))
+  );
+  const [lineMetaByIndex, setLineMetaByIndex] = useState<Map<number, NoteLineMeta>>(() =>
+    toLineIndexMap(lineMeta, notes.split('\n'))
+  );
 
   const formatDatetime = (datetimeMs: number): string => {
     const date = new Date(datetimeMs);
@@ -62,19 +137,15 @@ export const NotesEditor: React.FC<Props> = ({
     if (value === '' && lines.length > 1) {
       lines.splice(index, 1);
       
-      // Remove timestamp for deleted line and shift others
-      const newLineTimestamps = new Map<number, number>();
-      lineTimestamps.forEach((time, lineIndex) => {
-        if (lineIndex < index) {
-          newLineTimestamps.set(lineIndex, time);
-        } else if (lineIndex > index) {
-          newLineTimestamps.set(lineIndex - 1, time);
-        }
-      });
+      // Remove timestamp and speaker for deleted line and shift others
+      const newLineTimestamps = shiftLines(lineTimestamps, index, -1);
+      const newLineMeta = shiftLines(lineMetaByIndex, index, -1);
       setLineTimestamps(newLineTimestamps);
+      setLineMetaByIndex(newLineMeta);
       
       onNotesChange(lines.join('\n'));
       syncToParentTimestampMap(lines, newLineTimestamps);
+      syncToParentLineMeta(lines, newLineMeta);
       return;
     }
     
@@ -85,36 +156,204 @@ export const NotesEditor: React.FC<Props> = ({
     const oldLineEmpty = oldLine.trim().length === 0;
     const newLineHasContent = value.trim().length > 0;
     
+    let newLineTimestamps = lineTimestamps;
     if (oldLineEmpty && newLineHasContent && !lineTimestamps.has(index)) {
-      // Save current datetime (always, not just when recording)
-      const currentDatetime = Date.now();
+      // Save current datetime (always, not just when recording), minus the note-taking lag
+      const currentDatetime = NoteTiming.stamp(timingSettings, recordingStartTime);
       
-      const newLineTimestamps = new Map(lineTimestamps);
+      newLineTimestamps = new Map(lineTimestamps);
       newLineTimestamps.set(index, currentDatetime);
       setLineTimestamps(newLineTimestamps);
-      
-      syncToParentTimestampMap(lines, newLineTimestamps);
     }
     
     onNotesChange(lines.join('\n'));
+    // Editing a line shifts the positions of every line after it
+    syncToParentTimestampMap(lines, newLineTimestamps);
+    syncToParentLineMeta(lines, lineMetaByIndex);
   };
   
   // Convert line-based timestamps to position-based for parent state
   const syncToParentTimestampMap = (lines: string[], lineTimestamps: Map<number, number>) => {
-    const newMap = new Map<number, number>();
-    lineTimestamps.forEach((time, lineIndex) => {
-      const lineStartPos = lines.slice(0, lineIndex).join('\n').length + (lineIndex > 0 ? 1 : 0);
-      newMap.set(lineStartPos, time);
+    onTimestampMapChange(toPositionMap(lineTimestamps, lines));
+  };
+
+  const syncToParentLineMeta = (lines: string[], lineMeta: Map<number, NoteLineMeta>) => {
+    onLineMetaChange(toPositionMap(lineMeta, lines));
+  };
+
+  // Merge changes into a line's annotations; unset fields are dropped
+  const updateLineMeta = (index: number, changes: Partial<NoteLineMeta>) => {
+    const meta: NoteLineMeta = { ...lineMetaByIndex.get(index), ...changes };
+    (Object.keys(meta) as Array<keyof NoteLineMeta>).forEach((key) => {
+      if (!meta[key]) delete meta[key];
     });
-    onTimestampMapChange(newMap);
+
+    const newLineMeta = new Map(lineMetaByIndex);
+    if (Object.keys(meta).length > 0) {
+      newLineMeta.set(index, meta);
+    } else {
+      newLineMeta.delete(index);
+    }
+    setLineMetaByIndex(newLineMeta);
+    syncToParentLineMeta(notes.split('\n'), newLineMeta);
+  };
+
+  // Choosing the current type again turns the line back into a plain note
+  const handleTypeChange = (index: number, type: NoteLineType | undefined) => {
+    const current = lineMetaByIndex.get(index)?.type;
+    const next = type === current ? undefined : type;
+    updateLineMeta(index, next === 'action' ? { type: next } : { type: next, assignee: undefined, dueDate: undefined });
+  };
+
+  const toggleHighlight = (index: number) => {
+    updateLineMeta(index, { highlight: !lineMetaByIndex.get(index)?.highlight });
+  };
+
+  // Set or clear one line's timestamp by hand
+  const setLineTimestamp = (index: number, datetimeMs: number | undefined) => {
+    const newLineTimestamps = new Map(lineTimestamps);
+    if (datetimeMs === undefined) {
+      newLineTimestamps.delete(index);
+    } else {
+      newLineTimestamps.set(index, datetimeMs);
+    }
+    setLineTimestamps(newLineTimestamps);
+    syncToParentTimestampMap(notes.split('\n'), newLineTimestamps);
+  };
+
+  const stampToPlayback = (index: number) => {
+    if (playbackTimeRef.current === null || recordingStartTime <= 0) return;
+    setLineTimestamp(
+      index,
+      MetadataBuilder.fromAudioOffset(playbackTimeRef.current * 1000, recordingStartTime, pauses)
+    );
+  };
+
+  const handleTimingSettingsChange = (settings: NoteTimingSettings) => {
+    setTimingSettings(settings);
+    NoteTiming.saveSettings(settings);
+  };
+
+  // Timestamped lines by audio offset; a line's window lasts until the next one starts
+  const lineOffsets = useMemo(
+    () =>
+      recordingStartTime > 0
+        ? Array.from(lineTimestamps.entries())
+            .map(([index, datetimeMs]) => ({
+              index,
+              offsetMs: MetadataBuilder.toAudioOffset(datetimeMs, recordingStartTime, pauses)
+            }))
+            .sort((a, b) => a.offsetMs - b.offsetMs)
+        : [],
+    [lineTimestamps, recordingStartTime, pauses]
+  );
+
+  const findActiveLine = (time: number | null): number | null => {
+    if (time === null) return null;
+    const current = lineOffsets.filter((line) => line.offsetMs <= time * 1000).pop();
+    return current?.index ?? null;
   };
 
+  useEffect(() => {
+    const handleTimeUpdate = (e: Event) => {
+      const time = (e as CustomEvent<{ time: number | null }>).detail.time;
+      playbackTimeRef.current = time;
+      setHasPlayback(time !== null);
+      setActiveLine(findActiveLine(time));
+    };
+
+    window.addEventListener('audio-timeupdate', handleTimeUpdate);
+    return () => window.removeEventListener('audio-timeupdate', handleTimeUpdate);
+  }, [lineOffsets]);
+
+  // Re-evaluate when timestamps change while paused
+  useEffect(() => {
+    setActiveLine(findActiveLine(playbackTimeRef.current));
+  }, [lineOffsets]);
+
+  // Keep the active line in view, unless the reviewer is editing a line
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!followPlayback || activeLine === null || !container) return;
+    if (container.contains(document.activeElement)) return;
+
+    container.querySelectorAll('.note-line')[activeLine]?.scrollIntoView({ block: 'nearest' });
+  }, [activeLine, followPlayback]);
+
+  // "Flag moment" during recording: append a highlighted, timestamped line to describe it
+  useEffect(() => {
+    const handleFlagMoment = () => {
+      const lines = notes.split('\n');
+      const lastIndex = lines.length - 1;
+      const reuseLast = lines[lastIndex].trim() === '' && !lineTimestamps.has(lastIndex);
+      const index = reuseLast ? lastIndex : lines.length;
+      lines[index] = t('notes.flaggedMoment');
+
+      const newLineTimestamps = new Map(lineTimestamps).set(
+        index,
+        NoteTiming.stamp(timingSettings, recordingStartTime)
+      );
+      const newLineMeta = new Map(lineMetaByIndex).set(index, {
+        ...lineMetaByIndex.get(index),
+        highlight: true
+      });
+      setLineTimestamps(newLineTimestamps);
+      setLineMetaByIndex(newLineMeta);
+
+      onNotesChange(lines.join('\n'));
+      syncToParentTimestampMap(lines, newLineTimestamps);
+      syncToParentLineMeta(lines, newLineMeta);
+
+      // Select the placeholder text so typing replaces it
+      setTimeout(() => {
+        const input = containerRef.current?.querySelectorAll('textarea')[index] as HTMLTextAreaElement;
+        if (input) {
+          input.focus();
+          input.select();
+          input.scrollIntoView({ block: 'nearest' });
+        }
+      }, 10);
+    };
+
+    window.addEventListener('flag-moment', handleFlagMoment);
+    return () => window.removeEventListener('flag-moment', handleFlagMoment);
+  }, [notes, lineTimestamps, lineMetaByIndex, timingSettings, recordingStartTime, t]);
+
   const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     const lines = notes.split('\n');
     const currentLine = lines[index];
     const target = e.target as HTMLTextAreaElement;
     const cursorPos = target.selectionStart;
 
+    // Alt+1..9 tags the line with the Nth speaker, Alt+0 clears it
+    if (e.altKey && /^Digit\d$/.test(e.code)) {
+      e.preventDefault();
+      const digit = Number(e.code.slice(-1));
+      if (digit === 0) {
+        updateLineMeta(index, { speaker: undefined });
+      } else if (speakers[digit - 1]) {
+        updateLineMeta(index, { speaker: speakers[digit - 1] });
+      }
+      return;
+    }
+
+    // Alt+H toggles the highlight
+    if (e.altKey && e.code === 'KeyH') {
+      e.preventDefault();
+      toggleHighlight(index);
+      return;
+    }
+
+    // Alt+A / Alt+D / Alt+Q toggle action item, decision and open question
+    const shortcutType = (Object.keys(LINE_TYPES) as NoteLineType[]).find(
+      (type) => LINE_TYPES[type].keyCode === e.code
+    );
+    if (e.altKey && shortcutType) {
+      e.preventDefault();
+      handleTypeChange(index, shortcutType);
+      return;
+    }
+
     if (e.key === 'Enter') {
       e.preventDefault();
       
@@ -125,19 +364,15 @@ export const NotesEditor: React.FC<Props> = ({
       lines[index] = beforeCursor;
       lines.splice(index + 1, 0, afterCursor);
       
-      // Shift timestamps for lines after the split
-      const newLineTimestamps = new Map<number, number>();
-      lineTimestamps.forEach((time, lineIndex) => {
-        if (lineIndex < index + 1) {
-          newLineTimestamps.set(lineIndex, time);
-        } else {
-          newLineTimestamps.set(lineIndex + 1, time);
-        }
-      });
+      // Shift timestamps and speakers for lines after the split
+      const newLineTimestamps = shiftLines(lineTimestamps, index + 1, 1);
+      const newLineMeta = shiftLines(lineMetaByIndex, index + 1, 1);
       setLineTimestamps(newLineTimestamps);
+      setLineMetaByIndex(newLineMeta);
       
       onNotesChange(lines.join('\n'));
       syncToParentTimestampMap(lines, newLineTimestamps);
+      syncToParentLineMeta(lines, newLineMeta);
       
       // Focus next line after React re-renders
       setTimeout(() => {
@@ -156,19 +391,15 @@ export const NotesEditor: React.FC<Props> = ({
       lines[index - 1] = prevLine + currentLine;
       lines.splice(index, 1);
       
-      // Remove timestamp for deleted line and shift others
-      const newLineTimestamps = new Map<number, number>();
-      lineTimestamps.forEach((time, lineIndex) => {
-        if (lineIndex < index) {
-          newLineTimestamps.set(lineIndex, time);
-        } else if (lineIndex > index) {
-          newLineTimestamps.set(lineIndex - 1, time);
-        }
-      });
+      // Remove timestamp and speaker for deleted line and shift others
+      const newLineTimestamps = shiftLines(lineTimestamps, index, -1);
+      const newLineMeta = shiftLines(lineMetaByIndex, index, -1);
       setLineTimestamps(newLineTimestamps);
+      setLineMetaByIndex(newLineMeta);
       
       onNotesChange(lines.join('\n'));
       syncToParentTimestampMap(lines, newLineTimestamps);
+      syncToParentLineMeta(lines, newLineMeta);
       
       // Focus previous line
       setTimeout(() => {
@@ -184,16 +415,83 @@ export const NotesEditor: React.FC<Props> = ({
   const handleDoubleClick = (lineIndex: number) => {
     const datetimeMs = lineTimestamps.get(lineIndex);
     if (datetimeMs !== undefined && recordingStartTime > 0) {
-      // Convert datetime to relative time from recording start
-      const relativeTimeMs = datetimeMs - recordingStartTime;
+      // Convert datetime to a position in the recorded audio, skipping pauses
+      const relativeTimeMs = MetadataBuilder.toAudioOffset(datetimeMs, recordingStartTime, pauses);
       window.dispatchEvent(
         new CustomEvent('seek-audio', {
-          detail: { time: Math.max(0, relativeTimeMs) / 1000 }
+          detail: { time: relativeTimeMs / 1000 }
         })
       );
     }
   };
 
+  const searchPattern = useMemo(
+    () => (findOpen ? NoteSearch.buildPattern(findQuery, searchOptions) : null),
+    [findOpen, findQuery, searchOptions]
+  );
+  const matches = useMemo(
+    () => (searchPattern ? NoteSearch.findMatches(notes.split('\n'), searchPattern) : []),
+    [notes, searchPattern]
+  );
+  const matchesByLine = useMemo(() => {
+    const byLine = new Map<number, NoteMatch[]>();
+    matches.forEach((match) => byLine.set(match.line, [...(byLine.get(match.line) ?? []), match]));
+    return byLine;
+  }, [matches]);
+  // Replacing shortens the list, so the index may point past its end
+  const currentIndex = matches.length > 0 ? Math.min(currentMatch, matches.length - 1) : -1;
+  const currentLine = currentIndex >= 0 ? matches[currentIndex].line : null;
+
+  useEffect(() => {
+    setCurrentMatch(0);
+  }, [findQuery, searchOptions]);
+
+  useEffect(() => {
+    if (currentLine === null) return;
+    containerRef.current?.querySelectorAll('.note-line')[currentLine]?.scrollIntoView({ block: 'nearest' });
+  }, [currentLine, currentIndex]);
+
+  const openFind = () => {
+    setFindOpen(true);
+    // Focus the query again when the bar is already open
+    setTimeout(() => findBarRef.current?.querySelector('input')?.select(), 10);
+  };
+
+  const navigateMatches = (step: 1 | -1) => {
+    if (matches.length === 0) return;
+    setCurrentMatch((currentIndex + step + matches.length) % matches.length);
+  };
+
+  // Replacements never add or remove lines, so timestamps and annotations stay on their lines;
+  // only the positions they are keyed by in the parent move
+  const applyReplacements = (replaced: NoteMatch[]) => {
+    if (!searchPattern || replaced.length === 0) return;
+
+    const newLines = NoteSearch.replaceMatches(
+      notes.split('\n'),
+      replaced,
+      searchPattern,
+      replacement,
+      searchOptions
+    );
+    onNotesChange(newLines.join('\n'));
+    syncToParentTimestampMap(newLines, lineTimestamps);
+    syncToParentLineMeta(newLines, lineMetaByIndex);
+  };
+
+  const handleReplaceAll = () => {
+    applyReplacements(matches);
+    message.success(t('find.replacedCount', { count: matches.length }));
+  };
+
+  const canPlayLine = (index: number) => lineTimestamps.has(index) && recordingStartTime > 0;
+
+  useShortcuts({
+    toggleTimestamps: () => setShowTimestamps((current) => !current),
+    followPlayback: () => setFollowPlayback((current) => !current),
+    findInNotes: openFind
+  });
+
   const lines = notes.split('\n');
   if (lines.length === 0 || (lines.length === 1 && lines[0] === '')) {
     lines[0] = '';
@@ -202,20 +500,81 @@ export const NotesEditor: React.FC<Props> = ({
   return (
     <div className="notes-editor-container">
       <div className="editor-header">
-        <h3>📝 Notes Editor</h3>
+        <h3>📝 {t('notes.title')}</h3>
         <div className="editor-controls">
           <span className="recording-hint">
-            💡 Type to auto-create datetime • Enter for new line
+            💡 {t('notes.hint')}
           </span>
+          <InputNumber
+            size="small"
+            min={0}
+            max={60}
+            value={timingSettings.lagSeconds}
+            onChange={(lagSeconds) =>
+              handleTimingSettingsChange({ ...timingSettings, lagSeconds: lagSeconds ?? 0 })
+            }
+            addonBefore={t('notes.lag')}
+            addonAfter="s"
+            title={t('notes.lagTooltip')}
+            className="lag-input"
+          />
+          <InputNumber
+            size="small"
+            min={1}
+            max={60}
+            value={timingSettings.nudgeSeconds}
+            onChange={(nudgeSeconds) =>
+              handleTimingSettingsChange({ ...timingSettings, nudgeSeconds: nudgeSeconds ?? 1 })
+            }
+            addonBefore="±"
+            addonAfter="s"
+            title={t('notes.nudgeTooltip')}
+            className="nudge-input"
+          />
+          <button
+            className={`toggle-timestamps-btn${findOpen ? ' active' : ''}`}
+            onClick={() => (findOpen ? setFindOpen(false) : openFind())}
+            title={shortcutTitle('findInNotes')}
+          >
+            🔍 {t('find.title')}
+          </button>
+          <button
+            className={`toggle-timestamps-btn${followPlayback ? ' active' : ''}`}
+            onClick={() => setFollowPlayback(!followPlayback)}
+            title={`${t('notes.followPlaybackTooltip')} — ${shortcutTitle('followPlayback')}`}
+          >
+            🎧 {t('notes.followPlayback')}
+          </button>
           <button
             className="toggle-timestamps-btn"
             onClick={() => setShowTimestamps(!showTimestamps)}
-            title={showTimestamps ? 'Hide DateTimes' : 'Show DateTimes'}
+            title={shortcutTitle('toggleTimestamps')}
           >
-            {showTimestamps ? '👁️ Hide DateTimes' : '👁️‍🗨️ Show DateTimes'}
+            {showTimestamps ? `👁️ ${t('notes.hideTimestamps')}` : `👁️‍🗨️ ${t('notes.showTimestamps')}`}
           </button>
         </div>
       </div>
+
+      {findOpen && (
+        <div ref={findBarRef}>
+          <FindReplaceBar
+            query={findQuery}
+            onQueryChange={setFindQuery}
+            replacement={replacement}
+            onReplacementChange={setReplacement}
+            options={searchOptions}
+            onOptionsChange={setSearchOptions}
+            invalid={findQuery !== '' && searchPattern === null}
+            matchCount={matches.length}
+            current={currentIndex}
+            onNavigate={navigateMatches}
+            onReplace={() => applyReplacements(currentIndex >= 0 ? [matches[currentIndex]] : [])}
+            onReplaceAll={handleReplaceAll}
+            onPlay={currentLine !== null && canPlayLine(currentLine) ? () => handleDoubleClick(currentLine) : undefined}
+            onClose={() => setFindOpen(false)}
+          />
+        </div>
+      )}
       
       <div 
         ref={containerRef}
@@ -229,9 +588,13 @@ export const NotesEditor: React.FC<Props> = ({
       >
         {lines.map((line, index) => {
         const timeMs = lineTimestamps.get(index);
+        const meta = lineMetaByIndex.get(index);
+        const isActive = followPlayback && index === activeLine;
+        const lineMatches = matchesByLine.get(index);
           return (
             <div
               key={index}
+              className={`note-line${meta?.highlight ? ' highlighted' : ''}${isActive ? ' active-line' : ''}`}
               style={{
                 display: 'flex',
                 borderBottom: index < lines.length - 1 ? '1px solid #2d2d2d' : 'none'
@@ -260,29 +623,138 @@ export const NotesEditor: React.FC<Props> = ({
                 {timeMs !== undefined && showTimestamps ? formatDatetime(timeMs) : '\u00A0'}
               </div>
 
-              {/* Text Input */}
-              <TextArea
-                value={line}
-                onChange={(e) => handleLineChange(index, e.target.value)}
-                onKeyDown={(e) => handleKeyDown(index, e)}
-                onInput={(e) => {
-                  // Handle undo/redo operations
-                  const target = e.target as HTMLTextAreaElement;
-                  handleLineChange(index, target.value);
+              {/* Speaker */}
+              <Select
+                size="small"
+                variant="borderless"
+                allowClear
+                placeholder={t('notes.speaker')}
+                value={meta?.speaker}
+                onChange={(speaker?: string) => updateLineMeta(index, { speaker })}
+                options={speakers.map((name) => ({ value: name, label: name }))}
+                optionRender={(option) => {
+                  const shortcut = speakers.indexOf(String(option.value)) + 1;
+                  return shortcut > 0 && shortcut <= 9 ? `${shortcut}. ${option.label}` : option.label;
                 }}
-                placeholder={index === 0 ? "Start typing..." : ""}
-                autoSize={{ minRows: 1, maxRows: 10 }}
-                style={{
-                  flex: 1,
-                  fontFamily: 'monospace',
-                  fontSize: '14px',
-                  lineHeight: '1.6',
-                  border: 'none',
-                  backgroundColor: 'transparent',
-                  resize: 'none',
-                  padding: '8px'
+                className="speaker-select"
+                popupMatchSelectWidth={false}
+              />
+
+              {/* Line type */}
+              <Dropdown
+                trigger={['click']}
+                menu={{
+                  selectable: true,
+                  selectedKeys: meta?.type ? [meta.type] : [],
+                  items: (Object.keys(LINE_TYPES) as NoteLineType[]).map((type) => ({
+                    key: type,
+                    label: `${LINE_TYPES[type].icon} ${t(LINE_TYPES[type].label)}`
+                  })),
+                  onClick: ({ key }) => handleTypeChange(index, key as NoteLineType)
                 }}
+              >
+                <button
+                  className={`line-type-btn${meta?.type ? ` line-type-${meta.type}` : ''}`}
+                  title={t(meta?.type ? LINE_TYPES[meta.type].label : 'notes.markType')}
+                >
+                  {meta?.type ? LINE_TYPES[meta.type].icon : '•'}
+                </button>
+              </Dropdown>
+
+              <button
+                className={`highlight-btn${meta?.highlight ? ' active' : ''}`}
+                onClick={() => toggleHighlight(index)}
+                title={t(meta?.highlight ? 'notes.removeHighlight' : 'notes.addHighlight')}
+              >
+                {meta?.highlight ? '★' : '☆'}
+              </button>
+
+              <LineTimeEditor
+                datetimeMs={timeMs}
+                recordingStartTime={recordingStartTime}
+                pauses={pauses}
+                nudgeSeconds={timingSettings.nudgeSeconds}
+                canStampPlayback={hasPlayback && recordingStartTime > 0}
+                onChange={(datetimeMs) => setLineTimestamp(index, datetimeMs)}
+                onStampPlayback={() => stampToPlayback(index)}
               />
+
+              <div className="note-line-body">
+                <div className="note-text">
+                  {/* Search matches, drawn behind the transparent TextArea */}
+                  {lineMatches && (
+                    <div className="search-backdrop" aria-hidden>
+                      {lineMatches.map((match, i) => (
+                        <React.Fragment key={match.start}>
+                          {line.slice(i === 0 ? 0 : lineMatches[i - 1].end, match.start)}
+                          <mark className={match === matches[currentIndex] ? 'current' : undefined}>
+                            {line.slice(match.start, match.end)}
+                          </mark>
+                        </React.Fragment>
+                      ))}
+                      {line.slice(lineMatches[lineMatches.length - 1].end)}
+                    </div>
+                  )}
+
+                  {/* Text Input */}
+                  <TextArea
+                    value={line}
+                    onChange={(e) => handleLineChange(index, e.target.value)}
+                    onKeyDown={(e) => handleKeyDown(index, e)}
+                    onInput={(e) => {
+                      // Handle undo/redo operations
+                      const target = e.target as HTMLTextAreaElement;
+                      handleLineChange(index, target.value);
+                    }}
+                    placeholder={index === 0 ? t('notes.startTyping') : ''}
+                    autoSize={{ minRows: 1, maxRows: 10 }}
+                    style={{
+                      flex: 1,
+                      fontFamily: 'monospace',
+                      fontSize: '14px',
+                      lineHeight: '1.6',
+                      border: 'none',
+                      backgroundColor: 'transparent',
+                      resize: 'none',
+                      padding: '8px'
+                    }}
+                  />
+
+                  {lineMatches && canPlayLine(index) && (
+                    <button
+                      className="search-play-btn"
+                      onClick={() => handleDoubleClick(index)}
+                      title={t('find.playFromHereTooltip')}
+                    >
+                      ▶
+                    </button>
+                  )}
+                </div>
+
+                {/* Action item details */}
+                {meta?.type === 'action' && (
+                  <div className="action-item-details">
+                    <Select
+                      size="small"
+                      allowClear
+                      showSearch
+                      placeholder={t('notes.assignee')}
+                      value={meta.assignee}
+                      onChange={(assignee?: string) => updateLineMeta(index, { assignee })}
+                      options={speakers.map((name) => ({ value: name, label: name }))}
+                      className="assignee-select"
+                    />
+                    <Input
+                      size="small"
+                      type="date"
+                      value={meta.dueDate ?? ''}
+                      onChange={(e) => updateLineMeta(index, { dueDate: e.target.value })}
+                      className="due-date-input"
+                      title={t('notes.dueDate')}
+                    />
+                  </div>
+                )}
+              </div>
             </div>
           );
         })}
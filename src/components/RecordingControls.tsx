@@ -1,20 +1,62 @@
-import React, { useState, useEffect } from 'react';
-import { Button, Space, message } from 'antd';
+import React, { useState, useEffect, useRef } from 'react';
+import { Button, Checkbox, Dropdown, InputNumber, Select, Space, message } from 'antd';
 import {
   FolderOpenOutlined,
   AudioOutlined,
   StopOutlined,
-  SaveOutlined
+  SaveOutlined,
+  HistoryOutlined,
+  PauseOutlined,
+  CaretRightOutlined,
+  FileSearchOutlined,
+  StarOutlined,
+  ExportOutlined,
+  DownOutlined
 } from '@ant-design/icons';
 import { AudioRecorderService } from '../services/audioRecorder';
 import { FileManagerService, FileDownloadService } from '../services/fileManager';
 import { MetadataBuilder } from '../services/metadataBuilder';
 import { WordExporter } from '../services/wordExporter';
-import type { MeetingInfo } from '../types/types';
+import { MinutesExporter, MINUTES_FORMATS } from '../services/minutesExporter';
+import { RecordingRecoveryService } from '../services/recordingRecovery';
+import { ProjectLoader } from '../services/projectLoader';
+import { MeetingIndex } from '../services/meetingIndex';
+import { AudioFormats, AUDIO_FORMATS, BITRATE_PRESETS } from '../services/audioFormats';
+import { AudioDevices } from '../services/audioDevices';
+import type { AudioInputDevice } from '../services/audioDevices';
+import { FolderStatus } from './FolderStatus';
+import { LevelMeter } from './LevelMeter';
+import { useShortcuts, useShortcutTitle } from '../hooks/useShortcuts';
+import { useI18n } from '../i18n/I18nProvider';
+import { LANGUAGES } from '../i18n';
+import type { FolderAccess } from '../hooks/useFolderAccess';
+import type {
+  AppLanguage,
+  AudioFormat,
+  AudioOutputSettings,
+  AudioQuality,
+  ExportFormat,
+  FileSystemDirectoryHandle,
+  LoadedProject,
+  MeetingInfo,
+  MinutesExportSettings,
+  NoteLineMeta,
+  PauseInterval,
+  RecoveredRecording,
+  SavedProject,
+  TimestampRecord,
+  WordExportOptions,
+  WordExportSettings,
+  WordLayout,
+  WordTimeFormat
+} from '../types/types';
+
+// RMS below this (about -40 dBFS) counts as silence
+const SILENCE_THRESHOLD = 0.01;
 
 interface Props {
   folderPath: string;
-  onFolderSelect: (path: string) => void;
+  folderAccess: FolderAccess;
   isRecording: boolean;
   onRecordingChange: (recording: boolean) => void;
   onAudioBlobChange: (blob: Blob | null) => void;
@@ -22,16 +64,25 @@ interface Props {
   meetingInfo: MeetingInfo;
   notes: string;
   timestampMap: Map<number, number>;
+  lineMeta: Map<number, NoteLineMeta>;
   recordingStartTime: number;
   onRecordingStartTimeChange: (time: number) => void;
+  pauses: PauseInterval[];
+  onPausesChange: (pauses: PauseInterval[]) => void;
   audioBlob: Blob | null;
   isSaved: boolean;
   hasUnsavedChanges: boolean;
+  recovery: RecoveredRecording | null;
+  onRecoverySaved: () => void;
+  fileManager: FileManagerService;
+  savedProject: SavedProject | null;
+  onSavedProjectChange: (project: SavedProject) => void;
+  onProjectOpen: (project: LoadedProject) => void;
 }
 
 export const RecordingControls: React.FC<Props> = ({
   folderPath,
-  onFolderSelect,
+  folderAccess,
   isRecording,
   onRecordingChange,
   onAudioBlobChange,
@@ -39,170 +90,469 @@ export const RecordingControls: React.FC<Props> = ({
   meetingInfo,
   notes,
   timestampMap,
+  lineMeta,
   recordingStartTime,
   onRecordingStartTimeChange,
+  pauses,
+  onPausesChange,
   audioBlob,
   isSaved,
-  hasUnsavedChanges
+  hasUnsavedChanges,
+  recovery,
+  onRecoverySaved,
+  fileManager,
+  savedProject,
+  onSavedProjectChange,
+  onProjectOpen
 }) => {
+  const { t, exportLanguage, setExportLanguage } = useI18n();
+  const shortcutTitle = useShortcutTitle();
   const [duration, setDuration] = useState<number>(0);
   const [recorder] = useState(() => new AudioRecorderService());
-  const [fileManager] = useState(() => new FileManagerService());
-  const [lastProjectName, setLastProjectName] = useState<string>('');
-  const [lastRecordingDuration, setLastRecordingDuration] = useState<number>(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const [outputSettings, setOutputSettings] = useState<AudioOutputSettings>(() =>
+    AudioFormats.loadSettings()
+  );
+  const [wordSettings, setWordSettings] = useState<WordExportSettings>(() =>
+    WordExporter.loadSettings()
+  );
+  const [minutesSettings, setMinutesSettings] = useState<MinutesExportSettings>(() =>
+    MinutesExporter.loadSettings()
+  );
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+  const [preferredDeviceId, setPreferredDeviceId] = useState<string | null>(() =>
+    AudioDevices.loadPreferred()
+  );
+  const [silenceSeconds, setSilenceSeconds] = useState<number>(() =>
+    AudioDevices.loadSilenceSeconds()
+  );
+  const [inputLevel, setInputLevel] = useState(0);
+  const [isSilent, setIsSilent] = useState(false);
+  const sessionIdRef = useRef<string | null>(null);
+  const projectFilesInputRef = useRef<HTMLInputElement>(null);
+  const activeDeviceRef = useRef<string | undefined>(undefined);
+  const lastSoundAtRef = useRef<number>(0);
+
+  // A remembered device that is currently unplugged falls back to the system default
+  const selectedDeviceId = devices.some((device) => device.deviceId === preferredDeviceId)
+    ? preferredDeviceId!
+    : undefined;
+
+  const refreshDevices = async () => {
+    try {
+      const available = await AudioDevices.list();
+      setDevices(available);
+
+      const activeId = activeDeviceRef.current;
+      if (activeId && !available.some((device) => device.deviceId === activeId)) {
+        message.warning(t('recording.micDisconnected'));
+        activeDeviceRef.current = undefined;
+      }
+    } catch (error) {
+      console.warn('Failed to list audio inputs:', error);
+    }
+  };
+
+  useEffect(() => {
+    refreshDevices();
+    return AudioDevices.onChange(refreshDevices);
+  }, []);
 
   useEffect(() => {
     if (!isRecording) return;
 
+    lastSoundAtRef.current = Date.now();
+    let silenceWarned = false;
+
     const interval = setInterval(() => {
       setDuration(recorder.getCurrentDuration());
+
+      const level = recorder.getInputLevel();
+      setInputLevel(level);
+
+      // Paused stretches never count as silence
+      const now = Date.now();
+      if (level > SILENCE_THRESHOLD || recorder.isPaused()) {
+        lastSoundAtRef.current = now;
+      }
+      const silent = silenceSeconds > 0 && now - lastSoundAtRef.current >= silenceSeconds * 1000;
+      setIsSilent(silent);
+
+      if (silent && !silenceWarned) {
+        message.warning(t('recording.silenceWarning', { seconds: silenceSeconds }));
+      }
+      silenceWarned = silent;
     }, 100);
 
-    return () => clearInterval(interval);
-  }, [isRecording, recorder]);
+    return () => {
+      clearInterval(interval);
+      setInputLevel(0);
+      setIsSilent(false);
+    };
+  }, [isRecording, recorder, silenceSeconds]);
+
+  // Keep the crash-recovery copy of notes and meeting info up to date while recording
+  useEffect(() => {
+    const sessionId = sessionIdRef.current;
+    if (!isRecording || !sessionId) return;
+
+    const timeout = setTimeout(() => {
+      RecordingRecoveryService.updateSnapshot(sessionId, {
+        meetingInfo,
+        notes,
+        timestamps: Array.from(timestampMap.entries()),
+        recordingStartTime,
+        pauses,
+        lineMeta: Array.from(lineMeta.entries())
+      }).catch((error) => console.warn('Failed to update recovery snapshot:', error));
+    }, 1000);
+
+    return () => clearTimeout(timeout);
+  }, [isRecording, meetingInfo, notes, timestampMap, lineMeta, recordingStartTime, pauses]);
+
+  const openLoadedProject = (loaded: LoadedProject) => {
+    onProjectOpen(loaded);
+    if (loaded.hasNotes) {
+      message.success(t('project.opened', { name: loaded.project.projectName }));
+    } else {
+      message.warning(t('project.noNotes'));
+    }
+  };
+
+  const handleOpenProject = async () => {
+    if (!FileManagerService.isSupported()) {
+      // Fallback: let the user pick the project files individually
+      projectFilesInputRef.current?.click();
+      return;
+    }
 
-  const handleSelectFolder = async () => {
     try {
-      const folder = await fileManager.selectFolder();
-      if (folder) {
-        onFolderSelect(folder);
-        message.success(`Folder selected: ${folder}`);
-      }
+      const dirHandle = await fileManager.openProjectFolder();
+      if (!dirHandle) return;
+
+      openLoadedProject(await ProjectLoader.loadFromDirectory(dirHandle));
     } catch (error: any) {
-      message.error(error.message);
+      message.error(t('project.openFailed', { error: error.message }));
+    }
+  };
+
+  const handleProjectFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      openLoadedProject(await ProjectLoader.loadFromFiles(files));
+    } catch (error: any) {
+      message.error(t('project.openFailed', { error: error.message }));
+    }
+  };
+
+  // Open a recovery session so captured chunks reach IndexedDB as they arrive
+  const startRecoverySession = async (): Promise<string | null> => {
+    try {
+      return await RecordingRecoveryService.startSession({
+        meetingInfo,
+        notes,
+        timestamps: Array.from(timestampMap.entries()),
+        recordingStartTime,
+        pauses: [],
+        lineMeta: Array.from(lineMeta.entries())
+      }, outputSettings);
+    } catch (error) {
+      console.warn('Crash recovery unavailable:', error);
+      return null;
     }
   };
 
   const handleStartRecording = async () => {
+    const sessionId = await startRecoverySession();
+    sessionIdRef.current = sessionId;
+
     try {
-      await recorder.startRecording();
+      await recorder.startRecording(
+        sessionId
+          ? (chunk, durationMs) => {
+              RecordingRecoveryService.appendChunk(sessionId, chunk, durationMs).catch((error) =>
+                console.warn('Failed to persist audio chunk:', error)
+              );
+            }
+          : undefined,
+        outputSettings,
+        selectedDeviceId
+      );
+      activeDeviceRef.current = selectedDeviceId;
+      // Device labels only become readable once microphone access is granted
+      refreshDevices();
       const startTime = Date.now();
       onRecordingStartTimeChange(startTime);
+      onPausesChange([]);
+      setIsPaused(false);
       onRecordingChange(true);
       setDuration(0);
-      message.success('Recording started');
+      message.success(t('recording.started'));
     } catch (error: any) {
+      if (sessionId) {
+        await RecordingRecoveryService.discardSession(sessionId);
+        sessionIdRef.current = null;
+      }
       message.error(error.message);
     }
   };
 
-  const handleStopRecording = async () => {
-    try {
-      const audioBlob = await recorder.stopRecording();
-      const recordingDuration = recorder.getCurrentDuration();
-      onRecordingChange(false);
+  const getWordOptions = (
+    recordingPauses: PauseInterval[],
+    recordingDuration = savedProject?.duration
+  ): WordExportOptions => ({
+    ...wordSettings,
+    lineMeta,
+    timestampMap,
+    recordingStartTime,
+    pauses: recordingPauses,
+    language: exportLanguage,
+    duration: recordingDuration
+  });
+
+  // Write the formats chosen under "Also save as" next to the .docx, or download them
+  const saveExtraFormats = async (
+    projectName: string,
+    options: WordExportOptions,
+    directory: FileSystemDirectoryHandle | null
+  ) => {
+    for (const format of MinutesExporter.writableFormats(minutesSettings.extraFormats, options)) {
+      if (directory) {
+        const blob = await MinutesExporter.createBlob(format, meetingInfo, notes, options);
+        await fileManager.saveMinutesFile(
+          blob,
+          MinutesExporter.getFileName(projectName, format),
+          directory
+        );
+      } else {
+        await MinutesExporter.exportFile(format, meetingInfo, notes, projectName, options);
+      }
+    }
+  };
 
-      // Generate file names
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('.')[0];
-      const projectName = `Meeting_${timestamp}`;
-      const audioFileName = `${projectName}.wav`;
+  // The cross-meeting search is a convenience, so a failed update must not fail the save
+  const updateSearchIndex = (
+    projectName: string,
+    directory: FileSystemDirectoryHandle,
+    timestamps: TimestampRecord[]
+  ) => {
+    MeetingIndex.indexProject(
+      { projectName, directory, meetingInfo, timestamps, modified: Date.now() },
+      fileManager.getFolderHandle()
+    ).catch((error) => console.warn('Failed to update the search index:', error));
+  };
 
-      // Save files
-      if (FileManagerService.isSupported() && folderPath) {
-        // Save to user-selected folder
-        await fileManager.saveAudioFile(audioBlob, audioFileName);
+  // Write audio, meeting info, metadata and Word files for a finished recording
+  const saveRecording = async (
+    audioBlob: Blob,
+    recordingDuration: number,
+    recordingPauses: PauseInterval[],
+    format: AudioFormat
+  ) => {
+    // Generate file names
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('.')[0];
+    const baseName = `Meeting_${timestamp}`;
+    const extension = AudioFormats.getExtension(format);
+
+    // Save files
+    if (FileManagerService.isSupported() && folderPath) {
+      // Each meeting gets its own subfolder; files follow the (deduplicated) folder name
+      const { name: projectName, handle: projectDir } =
+        await fileManager.createProjectDirectory(baseName);
+      const audioFileName = `${projectName}.${extension}`;
+
+      await fileManager.saveAudioFile(audioBlob, audioFileName, projectDir);
+
+      // Build and save metadata
+      const metadata = MetadataBuilder.buildMetadata(
+        meetingInfo,
+        notes,
+        timestampMap,
+        recordingDuration,
+        audioFileName,
+        recordingStartTime,
+        { pauses: recordingPauses, lineMeta, language: exportLanguage }
+      );
 
-        // Build and save metadata
-        const metadata = MetadataBuilder.buildMetadata(
-          meetingInfo,
-          notes,
-          timestampMap,
-          recordingDuration,
-          audioFileName,
-          recordingStartTime
-        );
+      await fileManager.saveMetadataFile(
+        metadata.meetingInfo,
+        `${projectName}_meeting_info.json`,
+        projectDir
+      );
+      await fileManager.saveMetadataFile(
+        metadata.metadata,
+        'metadata.json',
+        projectDir
+      );
 
-        await fileManager.saveMetadataFile(
-          metadata.meetingInfo,
-          `${projectName}_meeting_info.json`
-        );
-        await fileManager.saveMetadataFile(
-          metadata.metadata,
-          'metadata.json'
-        );
+      // Export Word document to same folder
+      const wordBlob = await WordExporter.createWordBlob(
+        meetingInfo,
+        notes,
+        getWordOptions(recordingPauses, recordingDuration)
+      );
+      await fileManager.saveWordFile(wordBlob, `${projectName}.docx`, projectDir);
+      await saveExtraFormats(projectName, getWordOptions(recordingPauses, recordingDuration), projectDir);
+      updateSearchIndex(projectName, projectDir, metadata.metadata.Timestamps);
 
-        // Export Word document to same folder
-        const wordBlob = await WordExporter.createWordBlob(meetingInfo, notes);
-        await fileManager.saveWordFile(wordBlob, `${projectName}.docx`);
+      message.success(t('recording.savedTo', { path: `${folderPath}/${projectName}` }));
+      onSavedProjectChange({
+        projectName,
+        audioFileName,
+        duration: recordingDuration,
+        directory: projectDir
+      });
+      onSaveComplete(); // Notify parent that save is complete
+    } else {
+      // Fallback: download files
+      const projectName = baseName;
+      const audioFileName = `${projectName}.${extension}`;
+      const downloader = new FileDownloadService();
+      await downloader.downloadAudioFile(audioBlob, audioFileName);
 
-        message.success('Recording saved successfully!');
-        setLastProjectName(projectName);
-        setLastRecordingDuration(recordingDuration);
-        onSaveComplete(); // Notify parent that save is complete
-      } else {
-        // Fallback: download files
-        const downloader = new FileDownloadService();
-        await downloader.downloadAudioFile(audioBlob, audioFileName);
+      const metadata = MetadataBuilder.buildMetadata(
+        meetingInfo,
+        notes,
+        timestampMap,
+        recordingDuration,
+        audioFileName,
+        recordingStartTime,
+        { pauses: recordingPauses, lineMeta, language: exportLanguage }
+      );
 
-        const metadata = MetadataBuilder.buildMetadata(
-          meetingInfo,
-          notes,
-          timestampMap,
-          recordingDuration,
-          audioFileName,
-          recordingStartTime
-        );
+      await downloader.downloadMetadataFile(
+        metadata.meetingInfo,
+        `${projectName}_meeting_info.json`
+      );
+      await downloader.downloadMetadataFile(
+        metadata.metadata,
+        'metadata.json'
+      );
 
-        await downloader.downloadMetadataFile(
-          metadata.meetingInfo,
-          `${projectName}_meeting_info.json`
-        );
-        await downloader.downloadMetadataFile(
-          metadata.metadata,
-          'metadata.json'
-        );
+      // Export Word document
+      await WordExporter.exportToWord(
+        meetingInfo,
+        notes,
+        `${projectName}.docx`,
+        getWordOptions(recordingPauses, recordingDuration)
+      );
+      await saveExtraFormats(projectName, getWordOptions(recordingPauses, recordingDuration), null);
 
-        // Export Word document
-        await WordExporter.exportToWord(
-          meetingInfo,
-          notes,
-          `${projectName}.docx`
-        );
+      message.info(t('recording.downloaded'));
+      onSavedProjectChange({
+        projectName,
+        audioFileName,
+        duration: recordingDuration,
+        directory: null
+      });
+      onSaveComplete(); // Notify parent that save is complete
+    }
+  };
+
+  const handleStopRecording = async () => {
+    const { format } = recorder.getOutputSettings();
+    const hideEncoding = format === 'mp3'
+      ? message.loading(t('recording.encodingMp3'), 0)
+      : () => undefined;
+
+    try {
+      const audioBlob = await recorder.stopRecording();
+      activeDeviceRef.current = undefined;
+      hideEncoding();
+      const recordingDuration = recorder.getCurrentDuration();
+      const recordingPauses = recorder.getPauses();
+      onPausesChange(recordingPauses);
+      setIsPaused(false);
+      onRecordingChange(false);
+
+      await saveRecording(audioBlob, recordingDuration, recordingPauses, format);
 
-        message.info('Files downloaded. Please save them to your meeting notes folder.');
-        setLastProjectName(projectName);
-        setLastRecordingDuration(recordingDuration);
-        onSaveComplete(); // Notify parent that save is complete
+      // Files are on disk now, the recovery copy is no longer needed
+      if (sessionIdRef.current) {
+        await RecordingRecoveryService.discardSession(sessionIdRef.current);
+        sessionIdRef.current = null;
       }
 
       // Set audio for playback
       onAudioBlobChange(audioBlob);
     } catch (error: any) {
-      message.error(`Failed to stop recording: ${error.message}`);
+      hideEncoding();
+      message.error(t('recording.stopFailed', { error: error.message }));
+    }
+  };
+
+  const handlePauseRecording = () => {
+    recorder.pauseRecording();
+    setIsPaused(true);
+    onPausesChange(recorder.getPauses());
+    message.info(t('recording.paused'));
+  };
+
+  const handleResumeRecording = () => {
+    recorder.resumeRecording();
+    setIsPaused(false);
+    onPausesChange(recorder.getPauses());
+    message.success(t('recording.resumed'));
+  };
+
+  const handleSaveRecovered = async () => {
+    try {
+      if (!audioBlob || !recovery) {
+        message.error(t('recording.noRecovered'));
+        return;
+      }
+
+      await saveRecording(audioBlob, recovery.duration, pauses, recovery.format);
+      await RecordingRecoveryService.discardSession(recovery.sessionId);
+      onRecoverySaved();
+    } catch (error: any) {
+      message.error(t('recording.saveRecoveredFailed', { error: error.message }));
     }
   };
 
   const handleSaveChanges = async () => {
     try {
-      if (!audioBlob || !lastProjectName) {
-        message.error('No recording to update');
+      if (!audioBlob || !savedProject) {
+        message.error(t('recording.noRecordingToUpdate'));
         return;
       }
 
-      const audioFileName = `${lastProjectName}.wav`;
+      const { projectName, audioFileName, directory } = savedProject;
 
       // Build updated metadata with current notes
       const metadata = MetadataBuilder.buildMetadata(
         meetingInfo,
         notes,
         timestampMap,
-        lastRecordingDuration,
+        savedProject.duration,
         audioFileName,
-        recordingStartTime
+        recordingStartTime,
+        { pauses, lineMeta, language: exportLanguage }
       );
 
-      // Save files - check if folder was selected via folderPath
-      if (folderPath) {
-        // Update metadata and Word files
+      // Save files back into the project's folder when it was written to disk
+      if (directory) {
+        // Update meeting info, metadata and Word files
+        await fileManager.saveMetadataFile(
+          metadata.meetingInfo,
+          `${projectName}_meeting_info.json`,
+          directory
+        );
         await fileManager.saveMetadataFile(
           metadata.metadata,
-          'metadata.json'
+          'metadata.json',
+          directory
         );
 
-        const wordBlob = await WordExporter.createWordBlob(meetingInfo, notes);
-        await fileManager.saveWordFile(wordBlob, `${lastProjectName}.docx`);
+        const wordBlob = await WordExporter.createWordBlob(meetingInfo, notes, getWordOptions(pauses));
+        await fileManager.saveWordFile(wordBlob, `${projectName}.docx`, directory);
+        await saveExtraFormats(projectName, getWordOptions(pauses), directory);
+        updateSearchIndex(projectName, directory, metadata.metadata.Timestamps);
 
-        message.success('Changes saved successfully!');
+        message.success(t('recording.changesSaved'));
       } else {
         // Download updated files
         const downloader = new FileDownloadService();
@@ -215,18 +565,71 @@ export const RecordingControls: React.FC<Props> = ({
         await WordExporter.exportToWord(
           meetingInfo,
           notes,
-          `${lastProjectName}.docx`
+          `${projectName}.docx`,
+          getWordOptions(pauses)
         );
+        await saveExtraFormats(projectName, getWordOptions(pauses), null);
 
-        message.info('Updated files downloaded.');
+        message.info(t('recording.updatedDownloaded'));
       }
 
       onSaveComplete(); // Notify parent that save is complete
     } catch (error: any) {
-      message.error(`Failed to save changes: ${error.message}`);
+      message.error(t('recording.saveChangesFailed', { error: error.message }));
     }
   };
 
+  const handleOutputSettingsChange = (settings: AudioOutputSettings) => {
+    setOutputSettings(settings);
+    AudioFormats.saveSettings(settings);
+  };
+
+  const handleWordSettingsChange = (settings: WordExportSettings) => {
+    setWordSettings(settings);
+    WordExporter.saveSettings(settings);
+  };
+
+  const handleMinutesSettingsChange = (settings: MinutesExportSettings) => {
+    setMinutesSettings(settings);
+    MinutesExporter.saveSettings(settings);
+  };
+
+  // Download the current minutes in one format, named after the saved project if any
+  const handleExport = async (format: ExportFormat) => {
+    const projectName = savedProject?.projectName
+      ?? `Meeting_${new Date().toISOString().replace(/[:.]/g, '-')}`;
+
+    try {
+      await MinutesExporter.exportFile(format, meetingInfo, notes, projectName, getWordOptions(pauses));
+      message.success(t('recording.exported', { file: MinutesExporter.getFileName(projectName, format) }));
+    } catch (error: any) {
+      message.error(t('recording.exportFailed', { error: error.message }));
+    }
+  };
+
+  const handleDeviceChange = (deviceId: string) => {
+    const preferred = deviceId || null;
+    setPreferredDeviceId(preferred);
+    AudioDevices.savePreferred(preferred);
+  };
+
+  const handleSilenceSecondsChange = (seconds: number | null) => {
+    const value = seconds ?? 0;
+    setSilenceSeconds(value);
+    AudioDevices.saveSilenceSeconds(value);
+  };
+
+  const canSaveChanges = !isRecording && isSaved && audioBlob !== null && hasUnsavedChanges;
+  useShortcuts({
+    selectFolder: !isRecording && folderAccess.selectFolder,
+    openProject: !isRecording && handleOpenProject,
+    record: !isRecording && handleStartRecording,
+    stop: isRecording && handleStopRecording,
+    pauseResume: isRecording && (isPaused ? handleResumeRecording : handlePauseRecording),
+    flagMoment: isRecording && (() => window.dispatchEvent(new CustomEvent('flag-moment'))),
+    saveChanges: canSaveChanges && handleSaveChanges
+  });
+
   const formatDuration = (ms: number): string => {
     const totalSeconds = Math.floor(ms / 1000);
     const hours = Math.floor(totalSeconds / 3600);
@@ -243,13 +646,32 @@ export const RecordingControls: React.FC<Props> = ({
       <Space size="middle" wrap>
         <Button
           icon={<FolderOpenOutlined />}
-          onClick={handleSelectFolder}
+          onClick={folderAccess.selectFolder}
           disabled={isRecording}
           size="large"
+          title={shortcutTitle('selectFolder')}
         >
-          Select Folder
+          {t('recording.selectFolder')}
         </Button>
 
+        <Button
+          icon={<FileSearchOutlined />}
+          onClick={handleOpenProject}
+          disabled={isRecording}
+          size="large"
+          title={shortcutTitle('openProject')}
+        >
+          {t('recording.openProject')}
+        </Button>
+        <input
+          ref={projectFilesInputRef}
+          type="file"
+          accept=".wav,.webm,.ogg,.mp3,.json"
+          multiple
+          hidden
+          onChange={handleProjectFilesSelected}
+        />
+
         {!isRecording ? (
           <Button
             type="primary"
@@ -257,8 +679,9 @@ export const RecordingControls: React.FC<Props> = ({
             icon={<AudioOutlined />}
             onClick={handleStartRecording}
             size="large"
+            title={shortcutTitle('record')}
           >
-            Record
+            {t('recording.record')}
           </Button>
         ) : (
           <Button
@@ -266,40 +689,206 @@ export const RecordingControls: React.FC<Props> = ({
             icon={<StopOutlined />}
             onClick={handleStopRecording}
             size="large"
+            title={shortcutTitle('stop')}
+          >
+            {t('recording.stop')}
+          </Button>
+        )}
+
+        {isRecording && (
+          isPaused ? (
+            <Button
+              icon={<CaretRightOutlined />}
+              onClick={handleResumeRecording}
+              size="large"
+              title={shortcutTitle('pauseResume')}
+            >
+              {t('recording.resume')}
+            </Button>
+          ) : (
+            <Button
+              icon={<PauseOutlined />}
+              onClick={handlePauseRecording}
+              size="large"
+              title={shortcutTitle('pauseResume')}
+            >
+              {t('recording.pause')}
+            </Button>
+          )
+        )}
+
+        {isRecording && (
+          <Button
+            icon={<StarOutlined />}
+            onClick={() => window.dispatchEvent(new CustomEvent('flag-moment'))}
+            size="large"
+            title={t('recording.flagMomentTooltip')}
+          >
+            {t('recording.flagMoment')}
+          </Button>
+        )}
+
+        {!isRecording && recovery && audioBlob && !isSaved && (
+          <Button
+            type="primary"
+            icon={<HistoryOutlined />}
+            onClick={handleSaveRecovered}
+            size="large"
           >
-            Stop
+            {t('recording.saveRecovered')}
           </Button>
         )}
 
         {/* Show Save Changes button when has unsaved changes after first save */}
-        {!isRecording && isSaved && audioBlob && hasUnsavedChanges && (
+        {canSaveChanges && (
           <Button
             type="default"
             icon={<SaveOutlined />}
             onClick={handleSaveChanges}
             size="large"
+            title={shortcutTitle('saveChanges')}
             style={{ backgroundColor: '#52c41a', color: 'white', borderColor: '#52c41a' }}
           >
-            Save Changes
+            {t('recording.saveChanges')}
           </Button>
         )}
 
+        {!isRecording && (
+          <Dropdown
+            menu={{
+              items: (Object.keys(MINUTES_FORMATS) as ExportFormat[]).map((format) => ({
+                key: format,
+                label: t(MINUTES_FORMATS[format].label)
+              })),
+              onClick: ({ key }) => handleExport(key as ExportFormat)
+            }}
+          >
+            <Button icon={<ExportOutlined />} size="large">
+              {t('recording.export')} <DownOutlined />
+            </Button>
+          </Dropdown>
+        )}
+
         <span className="duration-display">⏱ {formatDuration(duration)}</span>
+
+        {isRecording && <LevelMeter level={inputLevel} silent={isSilent} />}
         
-        {isRecording && (
-          <span className="recording-indicator">🔴 Recording...</span>
+        {isRecording && !isPaused && (
+          <span className="recording-indicator">🔴 {t('recording.recordingIndicator')}</span>
+        )}
+
+        {isRecording && isPaused && (
+          <span className="paused-indicator">⏸ {t('recording.pausedIndicator')}</span>
+        )}
+
+        {isRecording && isSilent && (
+          <span className="silence-indicator">🔇 {t('recording.noSignal')}</span>
         )}
       </Space>
 
-      {folderPath && (
-        <div className="folder-info">
-          📁 Current Folder: <strong>{folderPath}</strong>
-        </div>
-      )}
+      <div className="audio-input-settings">
+        <span>🎙 {t('recording.microphone')}:</span>
+        <Select<string>
+          value={selectedDeviceId ?? ''}
+          onChange={handleDeviceChange}
+          disabled={isRecording}
+          className="audio-device-select"
+          options={[
+            { value: '', label: t('recording.systemDefault') },
+            ...devices
+              .filter((device) => device.deviceId && device.deviceId !== 'default')
+              .map((device) => ({ value: device.deviceId, label: device.label }))
+          ]}
+        />
+        <span>{t('recording.warnAfter')}</span>
+        <InputNumber
+          min={0}
+          max={600}
+          value={silenceSeconds}
+          onChange={handleSilenceSecondsChange}
+          addonAfter={t('recording.silenceSuffix')}
+          className="silence-seconds-input"
+          title={t('recording.silenceTooltip')}
+        />
+      </div>
+
+      <div className="audio-output-settings">
+        <span>🎚 {t('recording.audioFormat')}:</span>
+        <Select<AudioFormat>
+          value={outputSettings.format}
+          onChange={(format) => handleOutputSettingsChange({ ...outputSettings, format })}
+          disabled={isRecording}
+          className="audio-format-select"
+          options={(Object.keys(AUDIO_FORMATS) as AudioFormat[]).map((format) => ({
+            value: format,
+            label: t(AUDIO_FORMATS[format].label),
+            disabled: !AudioFormats.isSupported(format)
+          }))}
+        />
+        <Select<AudioQuality>
+          value={outputSettings.quality}
+          onChange={(quality) => handleOutputSettingsChange({ ...outputSettings, quality })}
+          disabled={isRecording || outputSettings.format === 'wav'}
+          className="audio-quality-select"
+          options={(Object.keys(BITRATE_PRESETS) as AudioQuality[]).map((quality) => ({
+            value: quality,
+            label: t('recording.quality', {
+              quality: t(`quality.${quality}` as const),
+              bitrate: BITRATE_PRESETS[quality]
+            })
+          }))}
+        />
+      </div>
+
+      <div className="word-export-settings">
+        <span>📄 {t('recording.wordMinutes')}:</span>
+        <Select<WordLayout>
+          value={wordSettings.layout}
+          onChange={(layout) => handleWordSettingsChange({ ...wordSettings, layout })}
+          className="word-layout-select"
+          options={[
+            { value: 'text', label: t('recording.layoutText') },
+            { value: 'timestamps', label: t('recording.layoutTimestamps') }
+          ]}
+        />
+        <Select<WordTimeFormat>
+          value={wordSettings.timeFormat}
+          onChange={(timeFormat) => handleWordSettingsChange({ ...wordSettings, timeFormat })}
+          disabled={wordSettings.layout === 'text'}
+          className="word-time-select"
+          options={[
+            { value: 'relative', label: t('recording.timeRelative') },
+            { value: 'absolute', label: t('recording.timeAbsolute') }
+          ]}
+        />
+        <Select<AppLanguage>
+          value={exportLanguage}
+          onChange={setExportLanguage}
+          className="export-language-select"
+          title={t('recording.exportLanguage')}
+          options={(Object.keys(LANGUAGES) as AppLanguage[]).map((language) => ({
+            value: language,
+            label: `🌐 ${LANGUAGES[language].label}`
+          }))}
+        />
+      </div>
+
+      <div className="minutes-export-settings">
+        <span>📤 {t('recording.alsoSave')}:</span>
+        <Checkbox.Group<ExportFormat>
+          value={minutesSettings.extraFormats}
+          onChange={(extraFormats) => handleMinutesSettingsChange({ extraFormats })}
+          options={(Object.keys(MINUTES_FORMATS) as ExportFormat[])
+            .filter((format) => format !== 'docx')
+            .map((format) => ({ value: format, label: t(MINUTES_FORMATS[format].label) }))}
+        />
+      </div>
+
+      <FolderStatus folderAccess={folderAccess} disabled={isRecording} />
 
       {!FileManagerService.isSupported() && (
         <div className="browser-warning">
-          ⚠️ Your browser doesn't support direct folder access. Files will be downloaded.
+          ⚠️ {t('recording.noFolderAccess')}
         </div>
       )}
     </div>
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Button, Input, Select } from 'antd';
+import { PlusOutlined, DeleteOutlined } from '@ant-design/icons';
+import { Attendees, ATTENDEE_ROLES, ATTENDANCE_STATUSES } from '../services/attendees';
+import { useI18n } from '../i18n/I18nProvider';
+import type { AttendanceStatus, AttendeeRole, RosterEntry } from '../types/types';
+
+interface Props {
+  roster: RosterEntry[];
+  onChange: (roster: RosterEntry[]) => void;
+}
+
+export const RosterEditor: React.FC<Props> = ({ roster, onChange }) => {
+  const { t } = useI18n();
+  const updateEntry = (index: number, changes: Partial<RosterEntry>) => {
+    onChange(roster.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  return (
+    <div className="roster-editor">
+      {roster.map((entry, index) => (
+        <div key={index} className="roster-row">
+          <Input
+            value={entry.name}
+            onChange={(e) => updateEntry(index, { name: e.target.value })}
+            placeholder={t('roster.name')}
+            className="roster-name"
+          />
+          <Input
+            value={entry.organization}
+            onChange={(e) => updateEntry(index, { organization: e.target.value })}
+            placeholder={t('roster.organization')}
+            className="roster-organization"
+          />
+          <Select<AttendeeRole>
+            value={entry.role}
+            onChange={(role) => updateEntry(index, { role })}
+            className="roster-role"
+            options={(Object.keys(ATTENDEE_ROLES) as AttendeeRole[]).map((role) => ({
+              value: role,
+              label: t(ATTENDEE_ROLES[role])
+            }))}
+          />
+          <Select<AttendanceStatus>
+            value={entry.status}
+            onChange={(status) => updateEntry(index, { status })}
+            className="roster-status"
+            options={(Object.keys(ATTENDANCE_STATUSES) as AttendanceStatus[]).map((status) => ({
+              value: status,
+              label: t(ATTENDANCE_STATUSES[status])
+            }))}
+          />
+          <Button
+            icon={<DeleteOutlined />}
+            onClick={() => onChange(roster.filter((_, i) => i !== index))}
+            title={t('roster.remove')}
+          />
+        </div>
+      ))}
+
+      <Button
+        type="dashed"
+        icon={<PlusOutlined />}
+        onClick={() => onChange([...roster, Attendees.createEntry()])}
+      >
+        {t('roster.add')}
+      </Button>
+    </div>
+  );
+};
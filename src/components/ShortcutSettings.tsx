@@ -0,0 +1,74 @@
+import React from 'react';
+import { Button, Input, Modal, message } from 'antd';
+import { Shortcuts, SHORTCUT_ACTIONS } from '../services/shortcuts';
+import { useShortcutBindings } from '../hooks/useShortcuts';
+import { useI18n } from '../i18n/I18nProvider';
+import type { ShortcutAction } from '../types/types';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Click a key field and press the new combination; Backspace or Delete alone unbinds it
+export const ShortcutSettings: React.FC<Props> = ({ open, onClose }) => {
+  const { t } = useI18n();
+  const bindings = useShortcutBindings();
+
+  const handleCapture = (action: ShortcutAction, e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep the key away from the global shortcut listener while recording it
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === 'Tab' || e.key === 'Escape') return;
+    const keys = e.key === 'Backspace' || e.key === 'Delete'
+      ? ''
+      : Shortcuts.fromEvent(e.nativeEvent);
+    if (keys === null) return;
+
+    try {
+      Shortcuts.setKeys(action, keys);
+    } catch (error: any) {
+      message.error(t('shortcuts.rejected', { keys, reason: error.message }));
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onCancel={onClose}
+      title={`⌨ ${t('shortcuts.settings')}`}
+      footer={[
+        <Button key="reset" onClick={() => Shortcuts.resetAll()}>
+          {t('shortcuts.resetAll')}
+        </Button>,
+        <Button key="close" type="primary" onClick={onClose}>
+          {t('common.close')}
+        </Button>
+      ]}
+    >
+      <p className="shortcut-hint">{t('shortcuts.hint')}</p>
+      <div className="shortcut-list">
+        {(Object.keys(SHORTCUT_ACTIONS) as ShortcutAction[]).map((action) => {
+          // Bindings from an older version may clash with keys reserved since
+          const conflict = Shortcuts.findConflict(action, bindings[action]);
+          return (
+            <div key={action} className="shortcut-row">
+              <span>{t(SHORTCUT_ACTIONS[action].label)}</span>
+              <Input
+                size="small"
+                readOnly
+                value={bindings[action]}
+                placeholder={t('shortcuts.unbound')}
+                onKeyDown={(e) => handleCapture(action, e)}
+                status={conflict ? 'warning' : undefined}
+                title={conflict ?? undefined}
+                className="shortcut-input"
+              />
+            </div>
+          );
+        })}
+      </div>
+    </Modal>
+  );
+};
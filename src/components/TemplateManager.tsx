@@ -0,0 +1,343 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button, Checkbox, Input, InputNumber, Modal, Popconfirm, Select, Space, message } from 'antd';
+import {
+  PlusOutlined,
+  CopyOutlined,
+  DeleteOutlined,
+  ArrowUpOutlined,
+  ArrowDownOutlined,
+  UploadOutlined
+} from '@ant-design/icons';
+import { TemplateStore, DEFAULT_TEMPLATE_ID, MINUTES_SECTIONS } from '../services/templateStore';
+import { TEMPLATE_PLACEHOLDERS } from '../services/wordExporter';
+import { useI18n } from '../i18n/I18nProvider';
+import type { MessageKey } from '../i18n';
+import type { MinutesSection, WordTemplate, WordTemplateLabels } from '../types/types';
+
+const { TextArea } = Input;
+
+const LABEL_FIELDS: Record<keyof WordTemplateLabels, MessageKey> = {
+  infoHeading: 'templates.labelInfoHeading',
+  title: 'templates.labelTitle',
+  date: 'templates.labelDate',
+  time: 'templates.labelTime',
+  location: 'templates.labelLocation',
+  host: 'templates.labelHost',
+  attendanceHeading: 'templates.labelAttendanceHeading',
+  notesHeading: 'templates.labelNotesHeading',
+  decisionsHeading: 'templates.labelDecisionsHeading',
+  actionsHeading: 'templates.labelActionsHeading',
+  questionsHeading: 'templates.labelQuestionsHeading'
+};
+
+const FONT_OPTIONS = ['', 'Times New Roman', 'Arial', 'Calibri', 'Cambria', 'Tahoma', 'Verdana'];
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  // Called after templates were added, changed or removed
+  onTemplatesChange: (templates: WordTemplate[]) => void;
+}
+
+export const TemplateManager: React.FC<Props> = ({ open, onClose, onTemplatesChange }) => {
+  const { t, exportLanguage } = useI18n();
+  // The built-in template is labelled in the export language, as it will be exported
+  const defaultTemplate = TemplateStore.defaultTemplate(exportLanguage);
+  const [templates, setTemplates] = useState<WordTemplate[]>([defaultTemplate]);
+  const [editing, setEditing] = useState<WordTemplate>(defaultTemplate);
+  // The edited template has changes that were not saved yet
+  const [dirty, setDirty] = useState(false);
+  const docxInputRef = useRef<HTMLInputElement>(null);
+  const isDefault = editing.id === DEFAULT_TEMPLATE_ID;
+
+  const reload = async (selectId?: string) => {
+    const list = await TemplateStore.list(exportLanguage);
+    setTemplates(list);
+    onTemplatesChange(list);
+    setEditing(list.find((template) => template.id === selectId) ?? list[0]);
+    setDirty(false);
+  };
+
+  useEffect(() => {
+    if (open) {
+      reload(editing.id).catch((error) => message.error(t('templates.loadFailed', { error: error.message })));
+    }
+  }, [open, exportLanguage]);
+
+  const update = (changes: Partial<WordTemplate>) => {
+    setEditing({ ...editing, ...changes });
+    setDirty(true);
+  };
+
+  // Switching to another template drops unsaved changes, so ask first
+  const confirmDiscard = (action: () => void) => {
+    if (!dirty) {
+      action();
+      return;
+    }
+    Modal.confirm({
+      title: t('templates.discardTitle'),
+      content: t('templates.discardContent', { name: templateName(editing) }),
+      okText: t('common.discard'),
+      okButtonProps: { danger: true },
+      onOk: action
+    });
+  };
+
+  const handleSelect = (id: string) => {
+    confirmDiscard(() => {
+      setEditing(templates.find((template) => template.id === id) ?? defaultTemplate);
+      setDirty(false);
+    });
+  };
+
+  const createFrom = async (source: WordTemplate, name: string) => {
+    try {
+      const saved = await TemplateStore.save({ ...source, id: TemplateStore.createId(), name });
+      await reload(saved.id);
+    } catch (error: any) {
+      message.error(t('templates.createFailed', { error: error.message }));
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      if (!editing.name.trim()) {
+        message.error(t('templates.nameRequired'));
+        return;
+      }
+      const saved = await TemplateStore.save(editing);
+      await reload(saved.id);
+      message.success(t('templates.saved', { name: saved.name }));
+    } catch (error: any) {
+      message.error(t('templates.saveFailed', { error: error.message }));
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await TemplateStore.delete(editing.id);
+      await reload();
+    } catch (error: any) {
+      message.error(t('templates.deleteFailed', { error: error.message }));
+    }
+  };
+
+  const handleDocxSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      update({ docxFile: file, docxFileName: file.name });
+    }
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    const sections = [...editing.sections];
+    const [section] = sections.splice(index, 1);
+    sections.splice(index + offset, 0, section);
+    update({ sections });
+  };
+
+  const toggleSection = (section: MinutesSection, included: boolean) => {
+    update({
+      sections: included
+        ? [...editing.sections, section]
+        : editing.sections.filter((s) => s !== section)
+    });
+  };
+
+  const templateName = (template: WordTemplate) =>
+    template.id === DEFAULT_TEMPLATE_ID ? t('templates.defaultName') : template.name;
+
+  const excludedSections = (Object.keys(MINUTES_SECTIONS) as MinutesSection[]).filter(
+    (section) => !editing.sections.includes(section)
+  );
+
+  return (
+    <Modal
+      title={`📄 ${t('templates.title')}`}
+      open={open}
+      onCancel={onClose}
+      width={760}
+      footer={[
+        <Button key="close" onClick={onClose}>
+          {t('common.close')}
+        </Button>,
+        <Button key="save" type="primary" onClick={handleSave} disabled={isDefault}>
+          {t('templates.save')}
+        </Button>
+      ]}
+    >
+      <div className="template-manager">
+        <div className="template-toolbar">
+          <Select
+            value={editing.id}
+            onChange={handleSelect}
+            options={templates.map((template) => ({ value: template.id, label: templateName(template) }))}
+            className="template-select"
+          />
+          <Button icon={<PlusOutlined />} onClick={() => confirmDiscard(() => createFrom(defaultTemplate, t('templates.newName')))}>
+            {t('common.new')}
+          </Button>
+          <Button
+            icon={<CopyOutlined />}
+            onClick={() => createFrom(editing, t('templates.copyName', { name: templateName(editing) }))}
+          >
+            {t('templates.duplicate')}
+          </Button>
+          <Popconfirm title={t('templates.deleteConfirm')} onConfirm={handleDelete} disabled={isDefault}>
+            <Button icon={<DeleteOutlined />} disabled={isDefault} />
+          </Popconfirm>
+        </div>
+
+        {isDefault && (
+          <div className="template-hint">{t('templates.readOnly')}</div>
+        )}
+
+        <fieldset disabled={isDefault} className="template-form">
+          <div className="form-row">
+            <label>{t('templates.name')}:</label>
+            <Input value={templateName(editing)} onChange={(e) => update({ name: e.target.value })} />
+          </div>
+
+          <div className="form-row form-row-split">
+            <div className="form-field">
+              <label>{t('templates.organization')}:</label>
+              <Input
+                value={editing.organization}
+                onChange={(e) => update({ organization: e.target.value })}
+                placeholder={t('templates.organizationPlaceholder')}
+              />
+            </div>
+            <div className="form-field">
+              <label>{t('templates.documentTitle')}:</label>
+              <Input value={editing.title} onChange={(e) => update({ title: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="form-row">
+            <label>{t('templates.letterhead')}:</label>
+            <TextArea
+              value={editing.letterhead}
+              onChange={(e) => update({ letterhead: e.target.value })}
+              placeholder={t('templates.letterheadPlaceholder')}
+              rows={2}
+            />
+          </div>
+
+          <div className="form-row form-row-split">
+            <div className="form-field">
+              <label>{t('templates.header')}:</label>
+              <Input value={editing.headerText} onChange={(e) => update({ headerText: e.target.value })} />
+            </div>
+            <div className="form-field">
+              <label>{t('templates.footer')}:</label>
+              <Input value={editing.footerText} onChange={(e) => update({ footerText: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="form-row form-row-split">
+            <div className="form-field">
+              <label>{t('templates.font')}:</label>
+              <Select
+                value={editing.fontFamily}
+                onChange={(fontFamily) => update({ fontFamily })}
+                disabled={isDefault}
+                options={FONT_OPTIONS.map((font) => ({ value: font, label: font || t('templates.fontDefault') }))}
+              />
+            </div>
+            <div className="form-field">
+              <label>{t('templates.fontSize')}:</label>
+              <InputNumber
+                min={0}
+                max={32}
+                value={editing.fontSize}
+                onChange={(fontSize) => update({ fontSize: fontSize ?? 0 })}
+                disabled={isDefault}
+              />
+            </div>
+          </div>
+
+          <div className="form-row">
+            <label>{t('templates.sections')}:</label>
+            <div className="template-sections">
+              {editing.sections.map((section, index) => (
+                <div key={section} className="template-section-row">
+                  <Checkbox checked onChange={() => toggleSection(section, false)} disabled={isDefault}>
+                    {t(MINUTES_SECTIONS[section])}
+                  </Checkbox>
+                  <Space>
+                    <Button
+                      size="small"
+                      icon={<ArrowUpOutlined />}
+                      onClick={() => moveSection(index, -1)}
+                      disabled={isDefault || index === 0}
+                    />
+                    <Button
+                      size="small"
+                      icon={<ArrowDownOutlined />}
+                      onClick={() => moveSection(index, 1)}
+                      disabled={isDefault || index === editing.sections.length - 1}
+                    />
+                  </Space>
+                </div>
+              ))}
+              {excludedSections.map((section) => (
+                <div key={section} className="template-section-row excluded">
+                  <Checkbox checked={false} onChange={() => toggleSection(section, true)} disabled={isDefault}>
+                    {t(MINUTES_SECTIONS[section])}
+                  </Checkbox>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="form-row template-labels">
+            <label>{t('templates.labels')}:</label>
+            <div className="template-label-grid">
+              {(Object.keys(LABEL_FIELDS) as Array<keyof WordTemplateLabels>).map((key) => (
+                <Input
+                  key={key}
+                  addonBefore={t(LABEL_FIELDS[key])}
+                  value={editing.labels[key]}
+                  onChange={(e) => update({ labels: { ...editing.labels, [key]: e.target.value } })}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="form-row">
+            <label>{t('templates.docxFile')}:</label>
+            <Space wrap>
+              <Button
+                icon={<UploadOutlined />}
+                onClick={() => docxInputRef.current?.click()}
+                disabled={isDefault}
+              >
+                {editing.docxFileName ? t('templates.replaceDocx') : t('templates.uploadDocx')}
+              </Button>
+              {editing.docxFileName && (
+                <>
+                  <span>{editing.docxFileName}</span>
+                  <Button
+                    size="small"
+                    onClick={() => update({ docxFile: undefined, docxFileName: undefined })}
+                    disabled={isDefault}
+                  >
+                    {t('common.remove')}
+                  </Button>
+                </>
+              )}
+            </Space>
+            <input ref={docxInputRef} type="file" accept=".docx" hidden onChange={handleDocxSelected} />
+            <div className="template-hint">
+              {t('templates.docxHint', {
+                placeholders: TEMPLATE_PLACEHOLDERS.map((name) => `{{${name}}}`).join(', ')
+              })}
+            </div>
+          </div>
+        </fieldset>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { message } from 'antd';
+import { FileManagerService } from '../services/fileManager';
+import { FolderStore } from '../services/folderStore';
+import { useI18n } from '../i18n/I18nProvider';
+import type { FolderPermissionState, RecentFolder } from '../types/types';
+
+export interface FolderAccess {
+  folderPath: string;
+  // Remembered folder whose permission has to be granted again before use
+  lapsedFolder: RecentFolder | null;
+  lapsedPermission: FolderPermissionState | null;
+  recentFolders: RecentFolder[];
+  selectFolder: () => Promise<void>;
+  regrantAccess: () => Promise<void>;
+  switchFolder: (id: string) => Promise<void>;
+}
+
+const isMissingFolder = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'NotFoundError';
+
+export const useFolderAccess = (fileManager: FileManagerService): FolderAccess => {
+  const { t } = useI18n();
+  const [folderPath, setFolderPath] = useState<string>('');
+  const [lapsedFolder, setLapsedFolder] = useState<RecentFolder | null>(null);
+  const [lapsedPermission, setLapsedPermission] = useState<FolderPermissionState | null>(null);
+  const [recentFolders, setRecentFolders] = useState<RecentFolder[]>([]);
+
+  // Restore the last used folder; permission prompts need a click, so only query here
+  useEffect(() => {
+    if (!FileManagerService.isSupported()) return;
+
+    FolderStore.list()
+      .then(async (folders) => {
+        setRecentFolders(folders);
+        const last = folders[0];
+        if (!last) return;
+
+        try {
+          const state = await fileManager.restoreFolder(last.handle);
+          if (state === 'granted') {
+            setFolderPath(last.name);
+          } else {
+            setLapsedFolder(last);
+            setLapsedPermission(state);
+            if (state === 'denied') await forgetFolder(last);
+          }
+        } catch (error) {
+          if (!isMissingFolder(error)) throw error;
+          await forgetFolder(last);
+        }
+      })
+      .catch((error) => console.warn('Failed to restore folder:', error));
+  }, []);
+
+  // Denied or deleted folders leave the recent list; picking them again could not succeed
+  const forgetFolder = async (folder: RecentFolder): Promise<void> => {
+    await FolderStore.forget(folder.id);
+    setRecentFolders((folders) => folders.filter((f) => f.id !== folder.id));
+  };
+
+  const activate = async (folder: RecentFolder): Promise<void> => {
+    let state: FolderPermissionState;
+    try {
+      state = await fileManager.restoreFolder(folder.handle, true);
+    } catch (error) {
+      if (!isMissingFolder(error)) throw error;
+      await forgetFolder(folder);
+      setLapsedFolder(null);
+      setLapsedPermission(null);
+      message.error(t('folder.missing', { name: folder.name }));
+      return;
+    }
+
+    if (state !== 'granted') {
+      setLapsedFolder(folder);
+      setLapsedPermission(state);
+      if (state === 'denied') await forgetFolder(folder);
+      message.error(t('folder.notGranted', { name: folder.name }));
+      return;
+    }
+
+    setFolderPath(folder.name);
+    setLapsedFolder(null);
+    setLapsedPermission(null);
+    setRecentFolders(await FolderStore.remember(folder.handle));
+    message.success(t('folder.selected', { name: folder.name }));
+  };
+
+  const selectFolder = async () => {
+    try {
+      const folder = await fileManager.selectFolder();
+      const handle = fileManager.getFolderHandle();
+      if (folder && handle) {
+        setFolderPath(folder);
+        setLapsedFolder(null);
+        setLapsedPermission(null);
+        setRecentFolders(await FolderStore.remember(handle));
+        message.success(t('folder.selected', { name: folder }));
+      }
+    } catch (error: any) {
+      message.error(error.message);
+    }
+  };
+
+  const regrantAccess = async () => {
+    if (!lapsedFolder) return;
+    try {
+      await activate(lapsedFolder);
+    } catch (error: any) {
+      message.error(t('folder.accessFailed', { error: error.message }));
+    }
+  };
+
+  const switchFolder = async (id: string) => {
+    const folder = recentFolders.find((f) => f.id === id);
+    if (!folder) return;
+    try {
+      await activate(folder);
+    } catch (error: any) {
+      message.error(t('folder.accessFailed', { error: error.message }));
+    }
+  };
+
+  return {
+    folderPath,
+    lapsedFolder,
+    lapsedPermission,
+    recentFolders,
+    selectFolder,
+    regrantAccess,
+    switchFolder
+  };
+};
@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from 'react';
+import { Shortcuts, SHORTCUT_ACTIONS } from '../services/shortcuts';
+import { useI18n } from '../i18n/I18nProvider';
+import type { ShortcutAction, ShortcutBindings } from '../types/types';
+
+type ShortcutHandlers = Partial<Record<ShortcutAction, (() => void) | false | undefined>>;
+
+// Offer actions to the shortcut registry and command palette; a falsy handler
+// marks the action as unavailable right now (e.g. Stop while not recording)
+export const useShortcuts = (handlers: ShortcutHandlers): void => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const available = (Object.keys(handlers) as ShortcutAction[]).filter((action) => handlers[action]);
+  const availableKey = available.join(',');
+
+  useEffect(() => {
+    const unregister = available.map((action) =>
+      Shortcuts.register(action, () => {
+        const handler = handlersRef.current[action];
+        if (handler) handler();
+      })
+    );
+    return () => unregister.forEach((fn) => fn());
+  }, [availableKey]);
+};
+
+// Current key bindings, refreshed when they are changed in the settings
+export const useShortcutBindings = (): ShortcutBindings => {
+  const [bindings, setBindings] = useState<ShortcutBindings>(() => Shortcuts.getBindings());
+
+  useEffect(() => {
+    const handleChange = () => setBindings(Shortcuts.getBindings());
+    window.addEventListener('shortcuts-changed', handleChange);
+    return () => window.removeEventListener('shortcuts-changed', handleChange);
+  }, []);
+
+  return bindings;
+};
+
+// "Label (keys)" for button tooltips
+export const useShortcutTitle = (): ((action: ShortcutAction) => string) => {
+  const { t } = useI18n();
+  const bindings = useShortcutBindings();
+
+  return (action) => {
+    const label = t(SHORTCUT_ACTIONS[action].label);
+    return bindings[action] ? `${label} (${bindings[action]})` : label;
+  };
+};
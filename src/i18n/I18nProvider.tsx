@@ -0,0 +1,65 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { ConfigProvider } from 'antd';
+import enUS from 'antd/locale/en_US';
+import viVN from 'antd/locale/vi_VN';
+import { I18n, LANGUAGES } from './index';
+import type { MessageKey, MessageParams } from './index';
+import type { AppLanguage } from '../types/types';
+
+const ANTD_LOCALES = { vi: viVN, en: enUS };
+
+interface I18nContextValue {
+  language: AppLanguage;
+  setLanguage: (language: AppLanguage) => void;
+  exportLanguage: AppLanguage;
+  setExportLanguage: (language: AppLanguage) => void;
+  // BCP 47 tag of the interface language, for date formatting
+  locale: string;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<AppLanguage>(() => I18n.getLanguage());
+  const [exportLanguage, setExportLanguageState] = useState<AppLanguage>(() =>
+    I18n.loadExportLanguage()
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = (next: AppLanguage) => {
+    I18n.setLanguage(next);
+    setLanguageState(next);
+  };
+
+  const setExportLanguage = (next: AppLanguage) => {
+    I18n.saveExportLanguage(next);
+    setExportLanguageState(next);
+  };
+
+  const value: I18nContextValue = {
+    language,
+    setLanguage,
+    exportLanguage,
+    setExportLanguage,
+    locale: LANGUAGES[language].locale,
+    t: (key, params) => I18n.translate(language, key, params)
+  };
+
+  return (
+    <I18nContext.Provider value={value}>
+      <ConfigProvider locale={ANTD_LOCALES[language]}>{children}</ConfigProvider>
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used inside I18nProvider');
+  }
+  return context;
+};
@@ -0,0 +1,359 @@
+// English catalog; its keys are the reference set every other catalog must cover
+export const en = {
+  // App shell
+  'app.title': 'Live Meeting Notes',
+  'app.viewEditor': 'Editor',
+  'app.viewLibrary': 'Library',
+  'app.viewSearch': 'Search',
+  'app.online': 'Online',
+  'app.offline': 'Offline',
+  'app.unsaved': 'Unsaved',
+  'app.unsavedTooltip': 'You have unsaved data',
+  'app.leaveWarning': 'You have unsaved data. Are you sure you want to leave this page?',
+  'app.language': 'Interface language',
+  'app.recoverTitle': 'Recover interrupted recording?',
+  'app.recoverContent': 'A recording started {started} was not saved (last update {updated}).',
+  'app.recoverOk': 'Recover',
+  'app.recovered': 'Recording recovered. Save it to keep the files.',
+  'app.recoverFailed': 'Failed to recover recording: {error}',
+  'app.resumeDraftTitle': 'Resume draft?',
+  'app.resumeDraftContent': '"{name}" was last edited {date}.',
+  'app.resumeDraftOk': 'Resume draft',
+  'app.draftNotFound': 'Draft not found',
+  'app.discardRecordingTitle': 'Discard unsaved recording?',
+  'app.discardRecordingContent': 'The current recording has not been saved yet.',
+  'app.discardRecordingOk': 'Open project',
+
+  // Shared
+  'common.new': 'New',
+  'common.discard': 'Discard',
+  'common.close': 'Close',
+  'common.remove': 'Remove',
+
+  // Meeting information
+  'metadata.panelTitle': 'Meeting Information',
+  'metadata.draft': 'Draft',
+  'metadata.draftPlaceholder': 'Unsaved meeting (autosaves once you start typing)',
+  'metadata.newDraftTooltip': 'Prepare another meeting',
+  'metadata.deleteDraftConfirm': 'Delete this draft?',
+  'metadata.deleteDraftTooltip': 'Delete current draft',
+  'metadata.title': 'Meeting Title',
+  'metadata.titlePlaceholder': 'e.g., Weekly Team Meeting',
+  'metadata.date': 'Date',
+  'metadata.time': 'Time',
+  'metadata.location': 'Location',
+  'metadata.locationPlaceholder': 'e.g., Conference Room A / Zoom',
+  'metadata.host': 'Host',
+  'metadata.hostPlaceholder': 'Meeting host name',
+  'metadata.attendees': 'Attendees',
+  'metadata.template': 'Minutes Template',
+  'metadata.manageTemplates': 'Manage',
+  'drafts.untitled': 'Untitled meeting',
+
+  // Attendee roster
+  'roster.name': 'Name',
+  'roster.organization': 'Organization',
+  'roster.remove': 'Remove attendee',
+  'roster.add': 'Add Attendee',
+  'roles.chair': 'Chair',
+  'roles.secretary': 'Secretary',
+  'roles.member': 'Member',
+  'roles.guest': 'Guest',
+  'statuses.present': 'Present',
+  'statuses.absent': 'Absent',
+  'statuses.excused': 'Excused',
+
+  // Minutes templates
+  'templates.title': 'Minutes Templates',
+  'templates.defaultName': 'Default',
+  'templates.newName': 'New template',
+  'templates.copyName': '{name} (copy)',
+  'templates.save': 'Save Template',
+  'templates.duplicate': 'Duplicate',
+  'templates.deleteConfirm': 'Delete this template?',
+  'templates.discardTitle': 'Discard unsaved changes?',
+  'templates.discardContent': 'Changes to "{name}" have not been saved.',
+  'templates.readOnly': 'The default template is read-only. Duplicate it to customize.',
+  'templates.name': 'Template name',
+  'templates.organization': 'Organization',
+  'templates.organizationPlaceholder': 'Shown at the top of the letterhead',
+  'templates.documentTitle': 'Document title',
+  'templates.letterhead': 'Letterhead lines',
+  'templates.letterheadPlaceholder': 'Department, address... (one per line)',
+  'templates.header': 'Page header',
+  'templates.footer': 'Page footer (with page numbers)',
+  'templates.font': 'Font',
+  'templates.fontDefault': 'Word default',
+  'templates.fontSize': 'Font size (pt, 0 = default)',
+  'templates.sections': 'Sections (in order)',
+  'templates.labels': 'Labels',
+  'templates.labelInfoHeading': 'Information heading',
+  'templates.labelTitle': 'Title label',
+  'templates.labelDate': 'Date label',
+  'templates.labelTime': 'Time label',
+  'templates.labelLocation': 'Location label',
+  'templates.labelHost': 'Host label',
+  'templates.labelAttendanceHeading': 'Attendance heading',
+  'templates.labelNotesHeading': 'Notes heading',
+  'templates.labelDecisionsHeading': 'Decisions heading',
+  'templates.labelActionsHeading': 'Action items heading',
+  'templates.labelQuestionsHeading': 'Open questions heading',
+  'templates.docxFile': 'Word template file (optional)',
+  'templates.uploadDocx': 'Upload .docx',
+  'templates.replaceDocx': 'Replace .docx',
+  'templates.docxHint':
+    'When a file is set it replaces the layout above. Placeholders: {placeholders}. ' +
+    'Section placeholders (info, attendance, notes, decisions, actions, questions) must be alone on their line.',
+  'templates.nameRequired': 'Template name is required',
+  'templates.saved': 'Template "{name}" saved',
+  'templates.loadFailed': 'Failed to load templates: {error}',
+  'templates.createFailed': 'Failed to create template: {error}',
+  'templates.saveFailed': 'Failed to save template: {error}',
+  'templates.deleteFailed': 'Failed to delete template: {error}',
+  'sections.info': 'Meeting information',
+  'sections.attendance': 'Attendance',
+  'sections.notes': 'Notes',
+  'sections.decisions': 'Decisions',
+  'sections.actions': 'Action items',
+  'sections.questions': 'Open questions',
+
+  // Recording controls
+  'recording.selectFolder': 'Select Folder',
+  'recording.openProject': 'Open Project',
+  'recording.record': 'Record',
+  'recording.stop': 'Stop',
+  'recording.pause': 'Pause',
+  'recording.resume': 'Resume',
+  'recording.flagMoment': 'Flag Moment',
+  'recording.flagMomentTooltip': 'Add a highlighted note at the current moment',
+  'recording.saveRecovered': 'Save Recovered Meeting',
+  'recording.saveChanges': 'Save Changes',
+  'recording.recordingIndicator': 'Recording...',
+  'recording.pausedIndicator': 'Paused',
+  'recording.noSignal': 'No input signal',
+  'recording.microphone': 'Microphone',
+  'recording.systemDefault': 'System default',
+  'recording.warnAfter': 'Warn after',
+  'recording.silenceSuffix': 's silence',
+  'recording.silenceTooltip': '0 disables the silence warning',
+  'recording.audioFormat': 'Audio format',
+  'recording.quality': '{quality} ({bitrate} kbps)',
+  'recording.wordMinutes': 'Word minutes',
+  'recording.layoutText': 'Clean text',
+  'recording.layoutTimestamps': 'Table with timestamps',
+  'recording.timeRelative': 'Recording offset',
+  'recording.timeAbsolute': 'Clock time',
+  'recording.exportLanguage': 'Language of the minutes and metadata',
+  'recording.export': 'Export',
+  'recording.alsoSave': 'Also save as',
+  'recording.exported': '{file} exported',
+  'recording.exportFailed': 'Failed to export: {error}',
+  'recording.noFolderAccess': "Your browser doesn't support direct folder access. Files will be downloaded.",
+  'recording.micDisconnected': 'The microphone in use was disconnected.',
+  'recording.silenceWarning': 'No audio detected for {seconds} seconds. Check your microphone.',
+  'recording.started': 'Recording started',
+  'recording.paused': 'Recording paused',
+  'recording.resumed': 'Recording resumed',
+  'recording.encodingMp3': 'Encoding MP3...',
+  'recording.savedTo': 'Recording saved to {path}',
+  'recording.downloaded': 'Files downloaded. Please save them to your meeting notes folder.',
+  'recording.stopFailed': 'Failed to stop recording: {error}',
+  'recording.noRecovered': 'No recovered recording to save',
+  'recording.saveRecoveredFailed': 'Failed to save recovered recording: {error}',
+  'recording.noRecordingToUpdate': 'No recording to update',
+  'recording.changesSaved': 'Changes saved successfully!',
+  'recording.updatedDownloaded': 'Updated files downloaded.',
+  'recording.saveChangesFailed': 'Failed to save changes: {error}',
+  'project.opened': 'Opened project: {name}',
+  'project.noNotes': 'No matching metadata.json found. Audio and meeting info were restored without notes.',
+  'project.openFailed': 'Failed to open project: {error}',
+  'quality.low': 'Low',
+  'quality.medium': 'Medium',
+  'quality.high': 'High',
+  'audioFormats.wav': 'WAV (uncompressed)',
+  'audioFormats.webmOpus': 'Opus (WebM)',
+  'audioFormats.oggOpus': 'Opus (Ogg)',
+  'audioFormats.mp3': 'MP3',
+  'exportFormats.docx': 'Word (.docx)',
+  'exportFormats.markdown': 'Markdown (.md)',
+  'exportFormats.html': 'HTML (.html)',
+  'exportFormats.pdf': 'PDF (.pdf)',
+  'exportFormats.srt': 'SubRip subtitles (.srt)',
+  'exportFormats.vtt': 'WebVTT subtitles (.vtt)',
+  'devices.fallbackLabel': 'Microphone {index}',
+  'levelMeter.silent': 'No input signal detected',
+  'levelMeter.level': 'Input level',
+
+  // Folders
+  'folder.current': 'Current Folder',
+  'folder.switch': 'Switch folder',
+  'folder.denied': 'Access to {name} was denied. Select the folder again.',
+  'folder.regrantNeeded': 'Access to {name} has to be granted again.',
+  'folder.regrant': 'Re-grant Access',
+  'folder.selected': 'Folder selected: {name}',
+  'folder.notGranted': 'Access to {name} was not granted',
+  'folder.missing': '{name} no longer exists and was removed from the recent folders',
+  'folder.accessFailed': 'Failed to access folder: {error}',
+
+  // Notes editor
+  'notes.title': 'Notes Editor',
+  'notes.hint':
+    'Type to auto-create datetime • Enter for new line • Alt+1..9 speaker • ' +
+    'Alt+A/D/Q action, decision, question • Alt+H highlight',
+  'notes.showTimestamps': 'Show DateTimes',
+  'notes.hideTimestamps': 'Hide DateTimes',
+  'notes.startTyping': 'Start typing...',
+  'notes.speaker': 'Speaker',
+  'notes.markType': 'Mark as action item, decision or question',
+  'notes.addHighlight': 'Highlight this line (Alt+H)',
+  'notes.removeHighlight': 'Remove highlight (Alt+H)',
+  'notes.assignee': 'Assignee',
+  'notes.dueDate': 'Due date',
+  'notes.flaggedMoment': 'Flagged moment',
+  'notes.followPlayback': 'Follow playback',
+  'notes.followPlaybackTooltip': 'Highlight the line being played and keep it in view',
+  'notes.lag': 'Lag',
+  'notes.lagTooltip': 'Seconds taken off when a line is stamped, to make up for typing after the words were said',
+  'notes.nudgeTooltip': 'Step of the -/+ buttons in the line timestamp editor',
+  'lineTime.title': 'Line timestamp',
+  'lineTime.recordingTime': 'Recording time (HH:MM:SS)',
+  'lineTime.clockTime': 'Clock time (HH:MM:SS)',
+  'lineTime.set': 'Set',
+  'lineTime.stampPlayback': 'Stamp to playback position',
+  'lineTime.remove': 'Remove timestamp',
+  'lineTime.invalid': 'Enter the time as HH:MM:SS',
+  'find.title': 'Find',
+  'find.placeholder': 'Find in notes',
+  'find.caseSensitive': 'Match case',
+  'find.regex': 'Use regular expression',
+  'find.count': '{current} of {total}',
+  'find.noResults': 'No results',
+  'find.invalidRegex': 'Invalid regular expression',
+  'find.previous': 'Previous match (Shift+Enter)',
+  'find.next': 'Next match (Enter)',
+  'find.replacePlaceholder': 'Replace with',
+  'find.replaceRegexPlaceholder': 'Replace with ($1 for groups)',
+  'find.replace': 'Replace',
+  'find.replaceAll': 'Replace all',
+  'find.replacedCount': 'Replaced {count} matches',
+  'find.playFromHere': 'Play from here',
+  'find.playFromHereTooltip': 'Play the recording from this line\'s timestamp',
+  'lineTypes.action': 'Action item',
+  'lineTypes.decision': 'Decision',
+  'lineTypes.question': 'Open question',
+
+  // Audio player
+  'player.noAudio': 'No audio available. Record a meeting to see playback controls.',
+  'player.play': 'Play',
+  'player.pause': 'Pause',
+  'player.skipBackward': 'Skip backward',
+  'player.skipForward': 'Skip forward',
+  'player.togglePlay': 'Play/Pause',
+  'player.slower': 'Slower',
+  'player.faster': 'Faster',
+  'player.loopStart': 'Set loop start (A)',
+  'player.loopEnd': 'Set loop end (B)',
+  'player.clearLoop': 'Clear loop',
+  'player.loopNeedsStart': 'Set A first, then B at a later position',
+  'player.skipBackSeconds': 'Seconds skipped backward',
+  'player.skipForwardSeconds': 'Seconds skipped forward',
+  'player.autoRewindTooltip': 'Seconds rewound when playback resumes (0 disables it)',
+  'player.zoomFit': 'Fit',
+  'player.waveformSkipped': 'Waveform hidden for this long recording; use the slider to seek',
+  'player.loadCaptions': 'Captions',
+  'player.loadCaptionsTooltip': 'Show a WebVTT (.vtt) track as captions during playback',
+  'player.removeCaptions': 'Hide captions',
+  'player.captionsFailed': 'Failed to load captions from {file}',
+  'shortcuts.commandPalette': 'Command palette',
+  'shortcuts.settings': 'Keyboard shortcuts',
+  'shortcuts.pauseResume': 'Pause/Resume recording',
+  'shortcuts.toggleTimestamps': 'Show/Hide DateTimes',
+  'shortcuts.paletteSearch': 'Type a command...',
+  'shortcuts.noMatches': 'No matching commands',
+  'shortcuts.hint': 'Click a field and press the new keys. Backspace or Delete removes the shortcut.',
+  'shortcuts.unbound': 'None',
+  'shortcuts.resetAll': 'Reset to defaults',
+  'shortcuts.rejected': 'Cannot use {keys}: {reason}',
+  'shortcuts.conflictEditor': 'the note editor uses it for its own line editing',
+  'shortcuts.needsModifier': 'add Ctrl or Alt, or use a function key, so it does not fire while typing',
+  'shortcuts.conflictAction': 'already assigned to "{action}"',
+
+  // Meeting library
+  'library.title': 'Meeting Library',
+  'library.selectFolder': 'Select a folder to browse its meetings.',
+  'library.filterPlaceholder': 'Filter by title, host or date',
+  'library.rescan': 'Rescan',
+  'library.columnTitle': 'Title',
+  'library.columnDate': 'Date',
+  'library.columnHost': 'Host',
+  'library.columnDuration': 'Duration',
+  'library.columnAttendees': 'Attendees',
+  'library.columnActions': 'Actions',
+  'library.open': 'Open',
+  'library.exportAgain': 'Export again',
+  'library.files': 'Files',
+  'library.filesTitle': 'Files — {name}',
+  'library.scanFailed': 'Failed to scan folder: {error}',
+  'library.notesUnavailable': 'Notes for this meeting are not available, the Word file was left unchanged.',
+  'library.regenerated': '{file} regenerated',
+  'library.exportFailed': 'Failed to export: {error}',
+  'search.title': 'Search all meetings',
+  'search.placeholder': 'Words from the notes, title, host or attendees — accents optional',
+  'search.meetingCount': '{count} meetings indexed',
+  'search.indexFolder': 'Index current folder',
+  'search.indexed': 'Indexed the meetings in {folder}',
+  'search.indexFailed': 'Indexing failed: {error}',
+  'search.clear': 'Clear index',
+  'search.clearTitle': 'Clear the search index?',
+  'search.clearContent': 'Saved projects are not touched; open the library or index a folder to search them again.',
+  'search.dateFrom': 'Meetings on or after',
+  'search.dateTo': 'Meetings on or before',
+  'search.host': 'Host',
+  'search.attendee': 'Attendee',
+  'search.emptyIndex': 'No meetings indexed yet. Open the library or click "Index current folder"; saved meetings are added automatically.',
+  'search.hint': 'Type a word or pick a filter. Click a note line to open the meeting and play from that moment.',
+  'search.noResults': 'No matching meetings',
+  'search.openAtLine': 'Open the meeting and play from this line',
+  'search.failed': 'Search failed: {error}',
+
+  // Errors raised by services
+  'errors.micDenied': 'Microphone permission denied. Please allow access in browser settings.',
+  'errors.micUnavailable': 'The selected microphone is not available. Please choose another input device.',
+  'errors.micNotFound': 'No microphone found. Please connect a microphone and try again.',
+  'errors.recordingFailed': 'Recording failed: {error}',
+  'errors.noActiveRecording': 'No active recording',
+  'errors.fsUnsupported': 'File System Access API not supported. Please use Chrome or Edge.',
+  'errors.noFolder': 'No folder selected. Please select a folder first.',
+  'errors.noProjectAudio': 'No recording (.wav, .webm, .ogg or .mp3) found in the selected project.',
+  'errors.noAudioToMerge': 'No audio data to merge',
+  'errors.defaultTemplateReadOnly': 'The default template cannot be modified',
+  'errors.noRecordingForSubtitles': 'Subtitles need a recording to align the notes to.',
+  'errors.searchFolderDenied': 'Access to the folder "{name}" was not granted.',
+
+  // Exported documents; rendered in the export language
+  'export.title': 'MEETING MINUTES',
+  'export.infoHeading': 'MEETING INFORMATION',
+  'export.titleLabel': 'Title',
+  'export.date': 'Date',
+  'export.time': 'Time',
+  'export.location': 'Location',
+  'export.host': 'Chair',
+  'export.attendanceHeading': 'ATTENDANCE',
+  'export.notesHeading': 'MEETING NOTES',
+  'export.decisionsHeading': 'DECISIONS',
+  'export.actionsHeading': 'ACTION ITEMS',
+  'export.questionsHeading': 'OPEN QUESTIONS',
+  'export.notAvailable': 'N/A',
+  'export.number': 'No.',
+  'export.name': 'Full name',
+  'export.organization': 'Organization',
+  'export.role': 'Role',
+  'export.status': 'Status',
+  'export.recordingTime': 'Recording time',
+  'export.clockTime': 'Time',
+  'export.content': 'Content',
+  'export.assignee': 'Owner',
+  'export.dueDate': 'Due date'
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,63 @@
+import { en } from './en';
+import { vi } from './vi';
+import type { MessageKey } from './en';
+import type { AppLanguage } from '../types/types';
+
+export type { MessageKey } from './en';
+export type MessageParams = Record<string, string | number>;
+
+const LANGUAGE_KEY = 'uiLanguage';
+const EXPORT_LANGUAGE_KEY = 'exportLanguage';
+
+const CATALOGS: Record<AppLanguage, Record<MessageKey, string>> = { vi, en };
+
+// Names are shown in their own language so they stay recognizable after switching
+export const LANGUAGES: Record<AppLanguage, { label: string; locale: string }> = {
+  vi: { label: 'Tiếng Việt', locale: 'vi-VN' },
+  en: { label: 'English', locale: 'en-US' }
+};
+
+const isLanguage = (value: unknown): value is AppLanguage =>
+  typeof value === 'string' && value in CATALOGS;
+
+export class I18n {
+  // Current interface language; kept in sync by I18nProvider so services can translate too
+  private static language: AppLanguage = I18n.loadLanguage();
+
+  // Fill {name}-style placeholders; unknown placeholders are left as they are
+  static translate(language: AppLanguage, key: MessageKey, params: MessageParams = {}): string {
+    return CATALOGS[language][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match
+    );
+  }
+
+  static t(key: MessageKey, params?: MessageParams): string {
+    return this.translate(this.language, key, params);
+  }
+
+  static getLanguage(): AppLanguage {
+    return this.language;
+  }
+
+  static setLanguage(language: AppLanguage): void {
+    this.language = language;
+    localStorage.setItem(LANGUAGE_KEY, language);
+  }
+
+  // First visit follows the browser language
+  static loadLanguage(): AppLanguage {
+    const stored = localStorage.getItem(LANGUAGE_KEY);
+    if (isLanguage(stored)) return stored;
+    return navigator.language.toLowerCase().startsWith('vi') ? 'vi' : 'en';
+  }
+
+  // Language of Word minutes and metadata, independent of the interface
+  static loadExportLanguage(): AppLanguage {
+    const stored = localStorage.getItem(EXPORT_LANGUAGE_KEY);
+    return isLanguage(stored) ? stored : 'vi';
+  }
+
+  static saveExportLanguage(language: AppLanguage): void {
+    localStorage.setItem(EXPORT_LANGUAGE_KEY, language);
+  }
+}
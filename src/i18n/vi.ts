@@ -0,0 +1,358 @@
+import type { MessageKey } from './en';
+
+export const vi: Record<MessageKey, string> = {
+  // App shell
+  'app.title': 'Ghi chú cuộc họp',
+  'app.viewEditor': 'Soạn thảo',
+  'app.viewLibrary': 'Thư viện',
+  'app.viewSearch': 'Tìm kiếm',
+  'app.online': 'Trực tuyến',
+  'app.offline': 'Ngoại tuyến',
+  'app.unsaved': 'Chưa lưu',
+  'app.unsavedTooltip': 'Bạn có dữ liệu chưa lưu',
+  'app.leaveWarning': 'Bạn có dữ liệu chưa lưu. Bạn có chắc muốn rời khỏi trang?',
+  'app.language': 'Ngôn ngữ giao diện',
+  'app.recoverTitle': 'Khôi phục bản ghi âm bị gián đoạn?',
+  'app.recoverContent': 'Bản ghi âm bắt đầu lúc {started} chưa được lưu (cập nhật lần cuối {updated}).',
+  'app.recoverOk': 'Khôi phục',
+  'app.recovered': 'Đã khôi phục bản ghi âm. Hãy lưu lại để giữ các tệp.',
+  'app.recoverFailed': 'Không thể khôi phục bản ghi âm: {error}',
+  'app.resumeDraftTitle': 'Tiếp tục bản nháp?',
+  'app.resumeDraftContent': '"{name}" được sửa lần cuối lúc {date}.',
+  'app.resumeDraftOk': 'Tiếp tục bản nháp',
+  'app.draftNotFound': 'Không tìm thấy bản nháp',
+  'app.discardRecordingTitle': 'Bỏ bản ghi âm chưa lưu?',
+  'app.discardRecordingContent': 'Bản ghi âm hiện tại chưa được lưu.',
+  'app.discardRecordingOk': 'Mở dự án',
+
+  // Shared
+  'common.new': 'Mới',
+  'common.discard': 'Bỏ qua',
+  'common.close': 'Đóng',
+  'common.remove': 'Gỡ bỏ',
+
+  // Meeting information
+  'metadata.panelTitle': 'Thông tin cuộc họp',
+  'metadata.draft': 'Bản nháp',
+  'metadata.draftPlaceholder': 'Cuộc họp chưa lưu (tự động lưu khi bạn bắt đầu nhập)',
+  'metadata.newDraftTooltip': 'Chuẩn bị cuộc họp khác',
+  'metadata.deleteDraftConfirm': 'Xóa bản nháp này?',
+  'metadata.deleteDraftTooltip': 'Xóa bản nháp hiện tại',
+  'metadata.title': 'Tiêu đề cuộc họp',
+  'metadata.titlePlaceholder': 'VD: Họp giao ban hằng tuần',
+  'metadata.date': 'Ngày',
+  'metadata.time': 'Giờ',
+  'metadata.location': 'Địa điểm',
+  'metadata.locationPlaceholder': 'VD: Phòng họp A / Zoom',
+  'metadata.host': 'Chủ trì',
+  'metadata.hostPlaceholder': 'Tên người chủ trì',
+  'metadata.attendees': 'Thành phần tham dự',
+  'metadata.template': 'Mẫu biên bản',
+  'metadata.manageTemplates': 'Quản lý',
+  'drafts.untitled': 'Cuộc họp chưa đặt tên',
+
+  // Attendee roster
+  'roster.name': 'Họ và tên',
+  'roster.organization': 'Đơn vị',
+  'roster.remove': 'Xóa người tham dự',
+  'roster.add': 'Thêm người tham dự',
+  'roles.chair': 'Chủ trì',
+  'roles.secretary': 'Thư ký',
+  'roles.member': 'Thành viên',
+  'roles.guest': 'Khách mời',
+  'statuses.present': 'Có mặt',
+  'statuses.absent': 'Vắng mặt',
+  'statuses.excused': 'Vắng có phép',
+
+  // Minutes templates
+  'templates.title': 'Mẫu biên bản',
+  'templates.defaultName': 'Mặc định',
+  'templates.newName': 'Mẫu mới',
+  'templates.copyName': '{name} (bản sao)',
+  'templates.save': 'Lưu mẫu',
+  'templates.duplicate': 'Nhân bản',
+  'templates.deleteConfirm': 'Xóa mẫu này?',
+  'templates.discardTitle': 'Bỏ các thay đổi chưa lưu?',
+  'templates.discardContent': 'Các thay đổi của "{name}" chưa được lưu.',
+  'templates.readOnly': 'Mẫu mặc định chỉ đọc. Hãy nhân bản để tùy chỉnh.',
+  'templates.name': 'Tên mẫu',
+  'templates.organization': 'Cơ quan',
+  'templates.organizationPlaceholder': 'Hiển thị ở đầu tiêu đề văn bản',
+  'templates.documentTitle': 'Tiêu đề văn bản',
+  'templates.letterhead': 'Dòng tiêu đề văn bản',
+  'templates.letterheadPlaceholder': 'Phòng ban, địa chỉ... (mỗi dòng một mục)',
+  'templates.header': 'Đầu trang',
+  'templates.footer': 'Chân trang (kèm số trang)',
+  'templates.font': 'Phông chữ',
+  'templates.fontDefault': 'Mặc định của Word',
+  'templates.fontSize': 'Cỡ chữ (pt, 0 = mặc định)',
+  'templates.sections': 'Các phần (theo thứ tự)',
+  'templates.labels': 'Nhãn',
+  'templates.labelInfoHeading': 'Tiêu đề phần thông tin',
+  'templates.labelTitle': 'Nhãn tiêu đề',
+  'templates.labelDate': 'Nhãn ngày',
+  'templates.labelTime': 'Nhãn giờ',
+  'templates.labelLocation': 'Nhãn địa điểm',
+  'templates.labelHost': 'Nhãn chủ trì',
+  'templates.labelAttendanceHeading': 'Tiêu đề phần tham dự',
+  'templates.labelNotesHeading': 'Tiêu đề phần nội dung',
+  'templates.labelDecisionsHeading': 'Tiêu đề phần quyết định',
+  'templates.labelActionsHeading': 'Tiêu đề phần công việc',
+  'templates.labelQuestionsHeading': 'Tiêu đề phần câu hỏi',
+  'templates.docxFile': 'Tệp mẫu Word (tùy chọn)',
+  'templates.uploadDocx': 'Tải lên .docx',
+  'templates.replaceDocx': 'Thay .docx',
+  'templates.docxHint':
+    'Khi có tệp, tệp sẽ thay thế bố cục ở trên. Các trường: {placeholders}. ' +
+    'Trường của từng phần (info, attendance, notes, decisions, actions, questions) phải nằm riêng một dòng.',
+  'templates.nameRequired': 'Cần nhập tên mẫu',
+  'templates.saved': 'Đã lưu mẫu "{name}"',
+  'templates.loadFailed': 'Không thể tải danh sách mẫu: {error}',
+  'templates.createFailed': 'Không thể tạo mẫu: {error}',
+  'templates.saveFailed': 'Không thể lưu mẫu: {error}',
+  'templates.deleteFailed': 'Không thể xóa mẫu: {error}',
+  'sections.info': 'Thông tin cuộc họp',
+  'sections.attendance': 'Thành phần tham dự',
+  'sections.notes': 'Nội dung',
+  'sections.decisions': 'Quyết định',
+  'sections.actions': 'Công việc cần thực hiện',
+  'sections.questions': 'Vấn đề cần giải đáp',
+
+  // Recording controls
+  'recording.selectFolder': 'Chọn thư mục',
+  'recording.openProject': 'Mở dự án',
+  'recording.record': 'Ghi âm',
+  'recording.stop': 'Dừng',
+  'recording.pause': 'Tạm dừng',
+  'recording.resume': 'Tiếp tục',
+  'recording.flagMoment': 'Đánh dấu',
+  'recording.flagMomentTooltip': 'Thêm ghi chú nổi bật tại thời điểm hiện tại',
+  'recording.saveRecovered': 'Lưu cuộc họp đã khôi phục',
+  'recording.saveChanges': 'Lưu thay đổi',
+  'recording.recordingIndicator': 'Đang ghi âm...',
+  'recording.pausedIndicator': 'Đã tạm dừng',
+  'recording.noSignal': 'Không có tín hiệu',
+  'recording.microphone': 'Micro',
+  'recording.systemDefault': 'Mặc định của hệ thống',
+  'recording.warnAfter': 'Cảnh báo sau',
+  'recording.silenceSuffix': 'giây im lặng',
+  'recording.silenceTooltip': '0 để tắt cảnh báo im lặng',
+  'recording.audioFormat': 'Định dạng âm thanh',
+  'recording.quality': '{quality} ({bitrate} kbps)',
+  'recording.wordMinutes': 'Biên bản Word',
+  'recording.layoutText': 'Văn bản',
+  'recording.layoutTimestamps': 'Bảng kèm thời gian',
+  'recording.timeRelative': 'Thời điểm ghi âm',
+  'recording.timeAbsolute': 'Giờ thực tế',
+  'recording.exportLanguage': 'Ngôn ngữ của biên bản và metadata',
+  'recording.export': 'Xuất',
+  'recording.alsoSave': 'Lưu thêm dạng',
+  'recording.exported': 'Đã xuất {file}',
+  'recording.exportFailed': 'Không thể xuất: {error}',
+  'recording.noFolderAccess': 'Trình duyệt không hỗ trợ truy cập thư mục trực tiếp. Các tệp sẽ được tải xuống.',
+  'recording.micDisconnected': 'Micro đang dùng đã bị ngắt kết nối.',
+  'recording.silenceWarning': 'Không phát hiện âm thanh trong {seconds} giây. Hãy kiểm tra micro.',
+  'recording.started': 'Đã bắt đầu ghi âm',
+  'recording.paused': 'Đã tạm dừng ghi âm',
+  'recording.resumed': 'Đã tiếp tục ghi âm',
+  'recording.encodingMp3': 'Đang mã hóa MP3...',
+  'recording.savedTo': 'Đã lưu bản ghi vào {path}',
+  'recording.downloaded': 'Các tệp đã được tải xuống. Hãy lưu chúng vào thư mục ghi chú cuộc họp.',
+  'recording.stopFailed': 'Không thể dừng ghi âm: {error}',
+  'recording.noRecovered': 'Không có bản ghi đã khôi phục để lưu',
+  'recording.saveRecoveredFailed': 'Không thể lưu bản ghi đã khôi phục: {error}',
+  'recording.noRecordingToUpdate': 'Không có bản ghi để cập nhật',
+  'recording.changesSaved': 'Đã lưu thay đổi!',
+  'recording.updatedDownloaded': 'Đã tải xuống các tệp cập nhật.',
+  'recording.saveChangesFailed': 'Không thể lưu thay đổi: {error}',
+  'project.opened': 'Đã mở dự án: {name}',
+  'project.noNotes': 'Không tìm thấy metadata.json phù hợp. Đã khôi phục âm thanh và thông tin cuộc họp nhưng không có ghi chú.',
+  'project.openFailed': 'Không thể mở dự án: {error}',
+  'quality.low': 'Thấp',
+  'quality.medium': 'Trung bình',
+  'quality.high': 'Cao',
+  'audioFormats.wav': 'WAV (không nén)',
+  'audioFormats.webmOpus': 'Opus (WebM)',
+  'audioFormats.oggOpus': 'Opus (Ogg)',
+  'audioFormats.mp3': 'MP3',
+  'exportFormats.docx': 'Word (.docx)',
+  'exportFormats.markdown': 'Markdown (.md)',
+  'exportFormats.html': 'HTML (.html)',
+  'exportFormats.pdf': 'PDF (.pdf)',
+  'exportFormats.srt': 'Phụ đề SubRip (.srt)',
+  'exportFormats.vtt': 'Phụ đề WebVTT (.vtt)',
+  'devices.fallbackLabel': 'Micro {index}',
+  'levelMeter.silent': 'Không phát hiện tín hiệu đầu vào',
+  'levelMeter.level': 'Mức tín hiệu đầu vào',
+
+  // Folders
+  'folder.current': 'Thư mục hiện tại',
+  'folder.switch': 'Đổi thư mục',
+  'folder.denied': 'Quyền truy cập {name} đã bị từ chối. Hãy chọn lại thư mục.',
+  'folder.regrantNeeded': 'Cần cấp lại quyền truy cập {name}.',
+  'folder.regrant': 'Cấp lại quyền',
+  'folder.selected': 'Đã chọn thư mục: {name}',
+  'folder.notGranted': 'Chưa được cấp quyền truy cập {name}',
+  'folder.missing': '{name} không còn tồn tại và đã được xóa khỏi danh sách thư mục gần đây',
+  'folder.accessFailed': 'Không thể truy cập thư mục: {error}',
+
+  // Notes editor
+  'notes.title': 'Ghi chú',
+  'notes.hint':
+    'Nhập để tự tạo thời gian • Enter xuống dòng • Alt+1..9 người nói • ' +
+    'Alt+A/D/Q công việc, quyết định, câu hỏi • Alt+H nổi bật',
+  'notes.showTimestamps': 'Hiện thời gian',
+  'notes.hideTimestamps': 'Ẩn thời gian',
+  'notes.startTyping': 'Bắt đầu nhập...',
+  'notes.speaker': 'Người nói',
+  'notes.markType': 'Đánh dấu là công việc, quyết định hoặc câu hỏi',
+  'notes.addHighlight': 'Làm nổi bật dòng này (Alt+H)',
+  'notes.removeHighlight': 'Bỏ nổi bật (Alt+H)',
+  'notes.assignee': 'Người thực hiện',
+  'notes.dueDate': 'Thời hạn',
+  'notes.flaggedMoment': 'Thời điểm đánh dấu',
+  'notes.followPlayback': 'Theo dõi phát lại',
+  'notes.followPlaybackTooltip': 'Tô sáng dòng đang phát và luôn hiển thị dòng đó',
+  'notes.lag': 'Độ trễ',
+  'notes.lagTooltip': 'Số giây trừ đi khi gắn mốc thời gian cho dòng, bù cho việc gõ sau khi lời đã được nói',
+  'notes.nudgeTooltip': 'Bước chỉnh của nút -/+ trong trình sửa mốc thời gian của dòng',
+  'lineTime.title': 'Mốc thời gian của dòng',
+  'lineTime.recordingTime': 'Thời điểm trong bản ghi (HH:MM:SS)',
+  'lineTime.clockTime': 'Giờ (HH:MM:SS)',
+  'lineTime.set': 'Đặt',
+  'lineTime.stampPlayback': 'Gắn theo vị trí đang phát',
+  'lineTime.remove': 'Xóa mốc thời gian',
+  'lineTime.invalid': 'Nhập thời gian theo dạng HH:MM:SS',
+  'find.title': 'Tìm',
+  'find.placeholder': 'Tìm trong ghi chú',
+  'find.caseSensitive': 'Phân biệt hoa thường',
+  'find.regex': 'Dùng biểu thức chính quy',
+  'find.count': '{current} / {total}',
+  'find.noResults': 'Không có kết quả',
+  'find.invalidRegex': 'Biểu thức chính quy không hợp lệ',
+  'find.previous': 'Kết quả trước (Shift+Enter)',
+  'find.next': 'Kết quả tiếp theo (Enter)',
+  'find.replacePlaceholder': 'Thay bằng',
+  'find.replaceRegexPlaceholder': 'Thay bằng ($1 cho nhóm)',
+  'find.replace': 'Thay',
+  'find.replaceAll': 'Thay tất cả',
+  'find.replacedCount': 'Đã thay {count} kết quả',
+  'find.playFromHere': 'Phát từ đây',
+  'find.playFromHereTooltip': 'Phát bản ghi từ mốc thời gian của dòng này',
+  'lineTypes.action': 'Công việc',
+  'lineTypes.decision': 'Quyết định',
+  'lineTypes.question': 'Câu hỏi mở',
+
+  // Audio player
+  'player.noAudio': 'Chưa có âm thanh. Ghi âm một cuộc họp để dùng trình phát.',
+  'player.play': 'Phát',
+  'player.pause': 'Tạm dừng',
+  'player.skipBackward': 'Lùi lại',
+  'player.skipForward': 'Tua tới',
+  'player.togglePlay': 'Phát/Tạm dừng',
+  'player.slower': 'Chậm hơn',
+  'player.faster': 'Nhanh hơn',
+  'player.loopStart': 'Đặt điểm đầu vòng lặp (A)',
+  'player.loopEnd': 'Đặt điểm cuối vòng lặp (B)',
+  'player.clearLoop': 'Bỏ vòng lặp',
+  'player.loopNeedsStart': 'Đặt A trước, rồi đặt B ở vị trí sau đó',
+  'player.skipBackSeconds': 'Số giây lùi lại',
+  'player.skipForwardSeconds': 'Số giây tua tới',
+  'player.autoRewindTooltip': 'Số giây tự lùi lại khi phát tiếp (0 để tắt)',
+  'player.zoomFit': 'Vừa khung',
+  'player.waveformSkipped': 'Bản ghi dài nên không hiển thị dạng sóng; dùng thanh trượt để tua',
+  'player.loadCaptions': 'Phụ đề',
+  'player.loadCaptionsTooltip': 'Hiển thị tệp WebVTT (.vtt) làm phụ đề khi phát lại',
+  'player.removeCaptions': 'Ẩn phụ đề',
+  'player.captionsFailed': 'Không thể tải phụ đề từ {file}',
+  'shortcuts.commandPalette': 'Bảng lệnh',
+  'shortcuts.settings': 'Phím tắt',
+  'shortcuts.pauseResume': 'Tạm dừng/Tiếp tục ghi âm',
+  'shortcuts.toggleTimestamps': 'Hiện/Ẩn thời gian',
+  'shortcuts.paletteSearch': 'Nhập lệnh...',
+  'shortcuts.noMatches': 'Không có lệnh phù hợp',
+  'shortcuts.hint': 'Bấm vào ô rồi nhấn tổ hợp phím mới. Backspace hoặc Delete để bỏ phím tắt.',
+  'shortcuts.unbound': 'Không có',
+  'shortcuts.resetAll': 'Khôi phục mặc định',
+  'shortcuts.rejected': 'Không thể dùng {keys}: {reason}',
+  'shortcuts.conflictEditor': 'trình soạn ghi chú đã dùng tổ hợp này để sửa dòng',
+  'shortcuts.needsModifier': 'thêm Ctrl hoặc Alt, hoặc dùng phím chức năng, để không kích hoạt khi đang gõ',
+  'shortcuts.conflictAction': 'đã được gán cho "{action}"',
+
+  // Meeting library
+  'library.title': 'Thư viện cuộc họp',
+  'library.selectFolder': 'Chọn một thư mục để xem các cuộc họp.',
+  'library.filterPlaceholder': 'Lọc theo tiêu đề, chủ trì hoặc ngày',
+  'library.rescan': 'Quét lại',
+  'library.columnTitle': 'Tiêu đề',
+  'library.columnDate': 'Ngày',
+  'library.columnHost': 'Chủ trì',
+  'library.columnDuration': 'Thời lượng',
+  'library.columnAttendees': 'Tham dự',
+  'library.columnActions': 'Thao tác',
+  'library.open': 'Mở',
+  'library.exportAgain': 'Xuất lại',
+  'library.files': 'Tệp',
+  'library.filesTitle': 'Tệp — {name}',
+  'library.scanFailed': 'Không thể quét thư mục: {error}',
+  'library.notesUnavailable': 'Không có ghi chú của cuộc họp này, tệp Word được giữ nguyên.',
+  'library.regenerated': 'Đã tạo lại {file}',
+  'library.exportFailed': 'Không thể xuất: {error}',
+  'search.title': 'Tìm trong mọi cuộc họp',
+  'search.placeholder': 'Từ trong ghi chú, tiêu đề, chủ trì hoặc người tham dự — có thể gõ không dấu',
+  'search.meetingCount': 'Đã lập chỉ mục {count} cuộc họp',
+  'search.indexFolder': 'Lập chỉ mục thư mục hiện tại',
+  'search.indexed': 'Đã lập chỉ mục các cuộc họp trong {folder}',
+  'search.indexFailed': 'Lập chỉ mục thất bại: {error}',
+  'search.clear': 'Xóa chỉ mục',
+  'search.clearTitle': 'Xóa chỉ mục tìm kiếm?',
+  'search.clearContent': 'Các dự án đã lưu không bị ảnh hưởng; mở thư viện hoặc lập chỉ mục một thư mục để tìm lại.',
+  'search.dateFrom': 'Cuộc họp từ ngày',
+  'search.dateTo': 'Cuộc họp đến ngày',
+  'search.host': 'Chủ trì',
+  'search.attendee': 'Người tham dự',
+  'search.emptyIndex': 'Chưa có cuộc họp nào trong chỉ mục. Mở thư viện hoặc bấm "Lập chỉ mục thư mục hiện tại"; cuộc họp đã lưu được thêm tự động.',
+  'search.hint': 'Nhập từ cần tìm hoặc chọn bộ lọc. Bấm vào một dòng ghi chú để mở cuộc họp và phát từ thời điểm đó.',
+  'search.noResults': 'Không có cuộc họp phù hợp',
+  'search.openAtLine': 'Mở cuộc họp và phát từ dòng này',
+  'search.failed': 'Tìm kiếm thất bại: {error}',
+
+  // Errors raised by services
+  'errors.micDenied': 'Quyền dùng micro bị từ chối. Hãy cho phép trong cài đặt trình duyệt.',
+  'errors.micUnavailable': 'Micro đã chọn không khả dụng. Hãy chọn thiết bị đầu vào khác.',
+  'errors.micNotFound': 'Không tìm thấy micro. Hãy kết nối micro và thử lại.',
+  'errors.recordingFailed': 'Ghi âm thất bại: {error}',
+  'errors.noActiveRecording': 'Không có bản ghi đang chạy',
+  'errors.fsUnsupported': 'Trình duyệt không hỗ trợ File System Access API. Hãy dùng Chrome hoặc Edge.',
+  'errors.noFolder': 'Chưa chọn thư mục. Hãy chọn thư mục trước.',
+  'errors.noProjectAudio': 'Không tìm thấy bản ghi (.wav, .webm, .ogg hoặc .mp3) trong dự án đã chọn.',
+  'errors.noAudioToMerge': 'Không có dữ liệu âm thanh để ghép',
+  'errors.defaultTemplateReadOnly': 'Không thể sửa mẫu mặc định',
+  'errors.noRecordingForSubtitles': 'Cần có bản ghi âm để căn chỉnh ghi chú cho phụ đề.',
+  'errors.searchFolderDenied': 'Chưa được cấp quyền truy cập thư mục "{name}".',
+
+  // Exported documents; rendered in the export language
+  'export.title': 'BÁO CÁO CUỘC HỌP',
+  'export.infoHeading': 'THÔNG TIN CUỘC HỌP',
+  'export.titleLabel': 'Tiêu đề',
+  'export.date': 'Ngày',
+  'export.time': 'Giờ',
+  'export.location': 'Địa điểm',
+  'export.host': 'Chủ trì',
+  'export.attendanceHeading': 'THÀNH PHẦN THAM DỰ',
+  'export.notesHeading': 'NỘI DUNG CUỘC HỌP',
+  'export.decisionsHeading': 'CÁC QUYẾT ĐỊNH',
+  'export.actionsHeading': 'CÔNG VIỆC CẦN THỰC HIỆN',
+  'export.questionsHeading': 'VẤN ĐỀ CẦN GIẢI ĐÁP',
+  'export.notAvailable': 'N/A',
+  'export.number': 'STT',
+  'export.name': 'Họ và tên',
+  'export.organization': 'Đơn vị',
+  'export.role': 'Vai trò',
+  'export.status': 'Tình trạng',
+  'export.recordingTime': 'Thời điểm ghi âm',
+  'export.clockTime': 'Thời gian',
+  'export.content': 'Nội dung',
+  'export.assignee': 'Người thực hiện',
+  'export.dueDate': 'Thời hạn'
+};
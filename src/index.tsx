@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { App } from './App';
+import { I18nProvider } from './i18n/I18nProvider';
 import { ConfigProvider, theme } from 'antd';
 import './styles/global.css';
 
@@ -33,7 +34,9 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
         }
       }}
     >
-      <App />
+      <I18nProvider>
+        <App />
+      </I18nProvider>
     </ConfigProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,85 @@
+import type { MessageKey } from '../i18n';
+import type {
+  AttendanceStatus,
+  AttendeeRole,
+  MeetingInfo,
+  MeetingMetadata,
+  RosterEntry
+} from '../types/types';
+
+export const ATTENDEE_ROLES: Record<AttendeeRole, MessageKey> = {
+  chair: 'roles.chair',
+  secretary: 'roles.secretary',
+  member: 'roles.member',
+  guest: 'roles.guest'
+};
+
+export const ATTENDANCE_STATUSES: Record<AttendanceStatus, MessageKey> = {
+  present: 'statuses.present',
+  absent: 'statuses.absent',
+  excused: 'statuses.excused'
+};
+
+export class Attendees {
+  // Names from the free-text attendee field, separated by commas, semicolons or newlines
+  static parse(attendees: string): string[] {
+    const names = attendees
+      .split(/[,;\n]/)
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
+    return Array.from(new Set(names));
+  }
+
+  static createEntry(name = ''): RosterEntry {
+    return { name, organization: '', role: 'member', status: 'present' };
+  }
+
+  // Meetings from before the roster only have the free-text list
+  static roster(meetingInfo: MeetingInfo): RosterEntry[] {
+    return meetingInfo.roster ?? this.parse(meetingInfo.attendees).map((name) => this.createEntry(name));
+  }
+
+  // Update the roster and the legacy attendee string together
+  static withRoster(meetingInfo: MeetingInfo, roster: RosterEntry[]): MeetingInfo {
+    return {
+      ...meetingInfo,
+      roster,
+      attendees: roster
+        .map((entry) => entry.name.trim())
+        .filter((name) => name.length > 0)
+        .join(', ')
+    };
+  }
+
+  // People who can be tagged as speaker: the host first, then attendees marked present
+  static speakers(meetingInfo: MeetingInfo): string[] {
+    const host = meetingInfo.host.trim();
+    const names = Array.from(new Set(
+      this.roster(meetingInfo)
+        .filter((entry) => entry.status === 'present')
+        .map((entry) => entry.name.trim())
+        .filter((name) => name.length > 0)
+    ));
+    return host ? [host, ...names.filter((name) => name !== host)] : names;
+  }
+
+  static toMetadata(roster: RosterEntry[]): MeetingMetadata['AttendeeRoster'] {
+    return roster.map((entry) => ({
+      Name: entry.name,
+      Organization: entry.organization,
+      Role: entry.role,
+      Status: entry.status
+    }));
+  }
+
+  static fromMetadata(json: MeetingMetadata['AttendeeRoster']): RosterEntry[] | undefined {
+    if (!Array.isArray(json)) return undefined;
+
+    return json.map((entry) => ({
+      name: entry.Name ?? '',
+      organization: entry.Organization ?? '',
+      role: entry.Role in ATTENDEE_ROLES ? entry.Role : 'member',
+      status: entry.Status in ATTENDANCE_STATUSES ? entry.Status : 'present'
+    }));
+  }
+}
@@ -0,0 +1,57 @@
+import { I18n } from '../i18n';
+
+const DEVICE_KEY = 'preferredMicrophone';
+const SILENCE_KEY = 'silenceWarningSeconds';
+const DEFAULT_SILENCE_SECONDS = 10;
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+export class AudioDevices {
+  // Labels stay empty until microphone permission has been granted once
+  static async list(): Promise<AudioInputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((device) => device.kind === 'audioinput')
+      .map((device, index) => ({
+        deviceId: device.deviceId,
+        label: device.label || I18n.t('devices.fallbackLabel', { index: index + 1 })
+      }));
+  }
+
+  // Returns an unsubscribe function
+  static onChange(callback: () => void): () => void {
+    if (!navigator.mediaDevices) return () => undefined;
+
+    navigator.mediaDevices.addEventListener('devicechange', callback);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', callback);
+  }
+
+  static loadPreferred(): string | null {
+    return localStorage.getItem(DEVICE_KEY);
+  }
+
+  static savePreferred(deviceId: string | null): void {
+    if (deviceId) {
+      localStorage.setItem(DEVICE_KEY, deviceId);
+    } else {
+      localStorage.removeItem(DEVICE_KEY);
+    }
+  }
+
+  // Seconds of silence before warning during a recording; 0 disables the warning
+  static loadSilenceSeconds(): number {
+    const stored = Number(localStorage.getItem(SILENCE_KEY));
+    return localStorage.getItem(SILENCE_KEY) !== null && Number.isFinite(stored) && stored >= 0
+      ? stored
+      : DEFAULT_SILENCE_SECONDS;
+  }
+
+  static saveSilenceSeconds(seconds: number): void {
+    localStorage.setItem(SILENCE_KEY, String(seconds));
+  }
+}
@@ -0,0 +1,86 @@
+import { WavUtils } from './wavUtils';
+import { loadStoredSettings, saveStoredSettings } from './storedSettings';
+import type { MessageKey } from '../i18n';
+import type { AudioFormat, AudioOutputSettings, AudioQuality } from '../types/types';
+
+const SETTINGS_KEY = 'audioOutputSettings';
+
+interface AudioFormatInfo {
+  label: MessageKey;
+  extension: string;
+  mimeType: string;
+  // Recorded through MediaRecorder; otherwise captured as PCM WAV first
+  compressedCapture: boolean;
+}
+
+export const AUDIO_FORMATS: Record<AudioFormat, AudioFormatInfo> = {
+  wav: { label: 'audioFormats.wav', extension: 'wav', mimeType: 'audio/wav', compressedCapture: false },
+  'webm-opus': { label: 'audioFormats.webmOpus', extension: 'webm', mimeType: 'audio/webm;codecs=opus', compressedCapture: true },
+  'ogg-opus': { label: 'audioFormats.oggOpus', extension: 'ogg', mimeType: 'audio/ogg;codecs=opus', compressedCapture: true },
+  mp3: { label: 'audioFormats.mp3', extension: 'mp3', mimeType: 'audio/mpeg', compressedCapture: false }
+};
+
+// Bitrates in kbps; WAV ignores them
+export const BITRATE_PRESETS: Record<AudioQuality, number> = {
+  low: 32,
+  medium: 64,
+  high: 128
+};
+
+const DEFAULT_SETTINGS: AudioOutputSettings = { format: 'wav', quality: 'medium' };
+
+export class AudioFormats {
+  static isSupported(format: AudioFormat): boolean {
+    const info = AUDIO_FORMATS[format];
+    if (!info.compressedCapture) return true;
+    return typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(info.mimeType);
+  }
+
+  static getExtension(format: AudioFormat): string {
+    return AUDIO_FORMATS[format].extension;
+  }
+
+  static isAudioFileName(fileName: string): boolean {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    return Object.values(AUDIO_FORMATS).some((info) => info.extension === extension);
+  }
+
+  static stripExtension(fileName: string): string {
+    return fileName.replace(/\.[^.]+$/, '');
+  }
+
+  static loadSettings(): AudioOutputSettings {
+    const settings = loadStoredSettings(
+      SETTINGS_KEY,
+      ({ format, quality }) =>
+        format !== undefined && format in AUDIO_FORMATS && quality !== undefined && quality in BITRATE_PRESETS,
+      DEFAULT_SETTINGS
+    );
+    return this.isSupported(settings.format) ? settings : { ...settings, format: 'wav' };
+  }
+
+  static saveSettings(settings: AudioOutputSettings): void {
+    saveStoredSettings(SETTINGS_KEY, settings);
+  }
+
+  // WAV length comes from its header; other formats are probed through an audio element
+  static async getDurationMs(file: Blob, fileName: string): Promise<number> {
+    if (fileName.toLowerCase().endsWith('.wav')) {
+      return WavUtils.getDurationMs(file);
+    }
+
+    const url = URL.createObjectURL(file);
+    try {
+      return await new Promise<number>((resolve) => {
+        const audio = new Audio();
+        audio.preload = 'metadata';
+        audio.onloadedmetadata = () =>
+          resolve(Number.isFinite(audio.duration) ? Math.round(audio.duration * 1000) : 0);
+        audio.onerror = () => resolve(0);
+        audio.src = url;
+      });
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
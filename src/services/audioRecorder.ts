@@ -1,15 +1,34 @@
 import RecordRTC from 'recordrtc';
+import { AUDIO_FORMATS, BITRATE_PRESETS } from './audioFormats';
+import { Mp3Converter } from './mp3Converter';
+import { I18n } from '../i18n';
+import type { AudioOutputSettings, PauseInterval } from '../types/types';
+
+// Interval at which captured audio is handed out for crash-safe persistence
+const CHUNK_INTERVAL_MS = 5000;
 
 export class AudioRecorderService {
   private recorder: RecordRTC | null = null;
   private stream: MediaStream | null = null;
   private startTime: number = 0;
+  private pauses: PauseInterval[] = [];
+  private output: AudioOutputSettings = { format: 'wav', quality: 'medium' };
+  private audioContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private levelBuffer: Float32Array<ArrayBuffer> | null = null;
 
-  async startRecording(): Promise<void> {
+  // onChunk receives each captured slice together with the recorded duration so far.
+  // Without deviceId the browser's default microphone is used.
+  async startRecording(
+    onChunk?: (blob: Blob, durationMs: number) => void,
+    output: AudioOutputSettings = this.output,
+    deviceId?: string
+  ): Promise<void> {
     try {
       // Request microphone permission
       this.stream = await navigator.mediaDevices.getUserMedia({
         audio: {
+          deviceId: deviceId ? { exact: deviceId } : undefined,
           echoCancellation: true,
           noiseSuppression: true,
           sampleRate: 44100,
@@ -17,35 +36,75 @@ export class AudioRecorderService {
         }
       });
 
-      this.recorder = new RecordRTC(this.stream, {
-        type: 'audio',
-        mimeType: 'audio/wav',
-        recorderType: RecordRTC.StereoAudioRecorder,
-        numberOfAudioChannels: 1,
-        desiredSampRate: 44100,
-        disableLogs: true
-      });
+      const format = AUDIO_FORMATS[output.format];
+      const chunkOptions = {
+        timeSlice: onChunk ? CHUNK_INTERVAL_MS : undefined,
+        ondataavailable: onChunk
+          ? (blob: Blob) => onChunk(blob, this.getCurrentDuration())
+          : undefined
+      };
+
+      // Opus is encoded by the browser's MediaRecorder; WAV and MP3 start from PCM
+      this.recorder = format.compressedCapture
+        ? new RecordRTC(this.stream, {
+            type: 'audio',
+            mimeType: format.mimeType,
+            recorderType: RecordRTC.MediaStreamRecorder,
+            audioBitsPerSecond: BITRATE_PRESETS[output.quality] * 1000,
+            disableLogs: true,
+            ...chunkOptions
+          })
+        : new RecordRTC(this.stream, {
+            type: 'audio',
+            mimeType: 'audio/wav',
+            recorderType: RecordRTC.StereoAudioRecorder,
+            numberOfAudioChannels: 1,
+            desiredSampRate: 44100,
+            disableLogs: true,
+            ...chunkOptions
+          });
 
+      this.output = output;
+      this.startLevelMonitor(this.stream);
       this.recorder.startRecording();
       this.startTime = Date.now();
+      this.pauses = [];
     } catch (error: any) {
       if (error.name === 'NotAllowedError') {
-        throw new Error('Microphone permission denied. Please allow access in browser settings.');
+        throw new Error(I18n.t('errors.micDenied'));
+      } else if (error.name === 'OverconstrainedError') {
+        throw new Error(I18n.t('errors.micUnavailable'));
       } else if (error.name === 'NotFoundError') {
-        throw new Error('No microphone found. Please connect a microphone and try again.');
+        throw new Error(I18n.t('errors.micNotFound'));
       } else {
-        throw new Error(`Recording failed: ${error.message}`);
+        throw new Error(I18n.t('errors.recordingFailed', { error: error.message }));
       }
     }
   }
 
   async stopRecording(): Promise<Blob> {
+    const blob = await this.stopCapture();
+
+    if (this.output.format === 'mp3') {
+      return Mp3Converter.fromWav(blob, BITRATE_PRESETS[this.output.quality]);
+    }
+    return blob;
+  }
+
+  getOutputSettings(): AudioOutputSettings {
+    return this.output;
+  }
+
+  private stopCapture(): Promise<Blob> {
     return new Promise((resolve, reject) => {
       if (!this.recorder) {
-        reject(new Error('No active recording'));
+        reject(new Error(I18n.t('errors.noActiveRecording')));
         return;
       }
 
+      // A recording stopped while paused ends its last pause here
+      this.closeOpenPause();
+
       this.recorder.stopRecording(() => {
         const blob = this.recorder!.getBlob();
         
@@ -53,6 +112,7 @@ export class AudioRecorderService {
         if (this.stream) {
           this.stream.getTracks().forEach(track => track.stop());
         }
+        this.stopLevelMonitor();
 
         this.recorder = null;
         this.stream = null;
@@ -61,14 +121,83 @@ export class AudioRecorderService {
     });
   }
 
+  // Current input level (RMS, 0..1); keeps reporting while paused since the microphone stays open
+  getInputLevel(): number {
+    if (!this.analyser || !this.levelBuffer) return 0;
+
+    this.analyser.getFloatTimeDomainData(this.levelBuffer);
+    let sum = 0;
+    for (const sample of this.levelBuffer) {
+      sum += sample * sample;
+    }
+    return Math.min(1, Math.sqrt(sum / this.levelBuffer.length));
+  }
+
+  private startLevelMonitor(stream: MediaStream): void {
+    try {
+      this.audioContext = new AudioContext();
+      this.analyser = this.audioContext.createAnalyser();
+      this.analyser.fftSize = 2048;
+      this.levelBuffer = new Float32Array(this.analyser.fftSize);
+      this.audioContext.createMediaStreamSource(stream).connect(this.analyser);
+    } catch (error) {
+      // The meter is optional; recording works without it
+      console.warn('Input level monitoring unavailable:', error);
+      this.stopLevelMonitor();
+    }
+  }
+
+  private stopLevelMonitor(): void {
+    this.audioContext?.close().catch(() => undefined);
+    this.audioContext = null;
+    this.analyser = null;
+    this.levelBuffer = null;
+  }
+
+  pauseRecording(): void {
+    if (!this.recorder || this.isPaused()) return;
+
+    this.recorder.pauseRecording();
+    this.pauses.push({ start: Date.now(), end: null });
+  }
+
+  resumeRecording(): void {
+    if (!this.recorder || !this.isPaused()) return;
+
+    this.recorder.resumeRecording();
+    this.closeOpenPause();
+  }
+
+  // Recorded audio length: wall-clock time since start minus every pause
   getCurrentDuration(): number {
-    return Date.now() - this.startTime;
+    const now = Date.now();
+    const pausedMs = this.pauses.reduce(
+      (total, pause) => total + ((pause.end ?? now) - pause.start),
+      0
+    );
+    return now - this.startTime - pausedMs;
+  }
+
+  getPauses(): PauseInterval[] {
+    return this.pauses.map((pause) => ({ ...pause }));
   }
 
   isRecording(): boolean {
     return this.recorder !== null;
   }
 
+  isPaused(): boolean {
+    const last = this.pauses[this.pauses.length - 1];
+    return last !== undefined && last.end === null;
+  }
+
+  private closeOpenPause(): void {
+    const last = this.pauses[this.pauses.length - 1];
+    if (last && last.end === null) {
+      last.end = Date.now();
+    }
+  }
+
   // Format duration to HH:MM:SS
   static formatDuration(ms: number): string {
     const totalSeconds = Math.floor(ms / 1000);
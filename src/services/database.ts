@@ -0,0 +1,77 @@
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import type {
+  MeetingDraft,
+  MeetingIndexEntry,
+  RecentFolder,
+  RecordingSession,
+  WordTemplate
+} from '../types/types';
+
+const DB_NAME = 'livemeetingnote';
+const DB_VERSION = 5;
+
+interface LiveMeetingNoteDB extends DBSchema {
+  recordingSessions: {
+    key: string;
+    value: RecordingSession;
+  };
+  recordingChunks: {
+    key: [string, number];
+    value: {
+      sessionId: string;
+      sequence: number;
+      blob: Blob;
+    };
+    indexes: { bySession: string };
+  };
+  drafts: {
+    key: string;
+    value: MeetingDraft;
+  };
+  folders: {
+    key: string;
+    value: RecentFolder;
+  };
+  templates: {
+    key: string;
+    value: WordTemplate;
+  };
+  meetingIndex: {
+    key: string;
+    value: MeetingIndexEntry;
+    indexes: { byTerm: string };
+  };
+}
+
+let dbPromise: Promise<IDBPDatabase<LiveMeetingNoteDB>> | null = null;
+
+// Shared IndexedDB connection, upgraded in place as new stores are added
+export function getDatabase(): Promise<IDBPDatabase<LiveMeetingNoteDB>> {
+  if (!dbPromise) {
+    dbPromise = openDB<LiveMeetingNoteDB>(DB_NAME, DB_VERSION, {
+      upgrade(db, oldVersion) {
+        if (oldVersion < 1) {
+          db.createObjectStore('recordingSessions', { keyPath: 'id' });
+          const chunks = db.createObjectStore('recordingChunks', {
+            keyPath: ['sessionId', 'sequence']
+          });
+          chunks.createIndex('bySession', 'sessionId');
+        }
+        if (oldVersion < 2) {
+          db.createObjectStore('drafts', { keyPath: 'id' });
+        }
+        if (oldVersion < 3) {
+          db.createObjectStore('folders', { keyPath: 'id' });
+        }
+        if (oldVersion < 4) {
+          db.createObjectStore('templates', { keyPath: 'id' });
+        }
+        if (oldVersion < 5) {
+          const meetings = db.createObjectStore('meetingIndex', { keyPath: 'id' });
+          meetings.createIndex('byTerm', 'terms', { multiEntry: true });
+        }
+      }
+    });
+  }
+  return dbPromise;
+}
@@ -0,0 +1,51 @@
+import { getDatabase } from './database';
+import { I18n } from '../i18n';
+import type { MeetingDraft, MeetingSessionSnapshot } from '../types/types';
+
+export class DraftStore {
+  static createId(): string {
+    return `draft_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  // Most recently edited first
+  static async list(): Promise<MeetingDraft[]> {
+    const db = await getDatabase();
+    const drafts = await db.getAll('drafts');
+    return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  static async get(id: string): Promise<MeetingDraft | undefined> {
+    const db = await getDatabase();
+    return db.get('drafts', id);
+  }
+
+  static async save(id: string, snapshot: MeetingSessionSnapshot): Promise<MeetingDraft> {
+    const db = await getDatabase();
+    const draft: MeetingDraft = {
+      ...snapshot,
+      id,
+      name: snapshot.meetingInfo.title.trim() || I18n.t('drafts.untitled'),
+      updatedAt: Date.now()
+    };
+
+    await db.put('drafts', draft);
+    return draft;
+  }
+
+  static async delete(id: string): Promise<void> {
+    const db = await getDatabase();
+    await db.delete('drafts', id);
+  }
+
+  // Skip autosaving a pristine session so every page load doesn't leave an empty draft behind
+  static hasContent(snapshot: MeetingSessionSnapshot, defaultTitle: string): boolean {
+    const { meetingInfo } = snapshot;
+    return (
+      snapshot.notes.trim().length > 0 ||
+      meetingInfo.title !== defaultTitle ||
+      meetingInfo.location.trim().length > 0 ||
+      meetingInfo.host.trim().length > 0 ||
+      meetingInfo.attendees.trim().length > 0
+    );
+  }
+}
@@ -1,4 +1,5 @@
-import type { FileSystemDirectoryHandle } from '../types/types';
+import { I18n } from '../i18n';
+import type { FileSystemDirectoryHandle, FolderPermissionState } from '../types/types';
 
 export class FileManagerService {
   private dirHandle: FileSystemDirectoryHandle | null = null;
@@ -7,7 +8,7 @@ export class FileManagerService {
     try {
       // Check if API is supported
       if (!('showDirectoryPicker' in window)) {
-        throw new Error('File System Access API not supported. Please use Chrome or Edge.');
+        throw new Error(I18n.t('errors.fsUnsupported'));
       }
 
       this.dirHandle = await window.showDirectoryPicker!({
@@ -23,63 +24,159 @@ export class FileManagerService {
     }
   }
 
-  async saveAudioFile(audioBlob: Blob, fileName: string): Promise<string> {
-    if (!this.dirHandle) {
-      throw new Error('No folder selected. Please select a folder first.');
+  // Reuse a remembered folder. Browsers drop the grant between visits, so access
+  // may need re-requesting, which only works from a user gesture.
+  async restoreFolder(
+    handle: FileSystemDirectoryHandle,
+    requestAccess = false
+  ): Promise<FolderPermissionState> {
+    let state = await handle.queryPermission({ mode: 'readwrite' });
+    if (state === 'prompt' && requestAccess) {
+      state = await handle.requestPermission({ mode: 'readwrite' });
     }
 
-    // Create file in selected directory
-    const fileHandle = await this.dirHandle.getFileHandle(fileName, {
-      create: true
-    });
+    if (state === 'granted') {
+      // A folder deleted since it was remembered throws NotFoundError here rather than on the first save
+      await handle.values().next();
+      this.dirHandle = handle;
+    }
+    return state;
+  }
 
-    const writable = await fileHandle.createWritable();
-    await writable.write(audioBlob);
-    await writable.close();
+  // Pick an existing project folder without changing the selected root folder
+  async openProjectFolder(): Promise<FileSystemDirectoryHandle | null> {
+    try {
+      if (!FileManagerService.isSupported()) {
+        throw new Error(I18n.t('errors.fsUnsupported'));
+      }
 
-    return fileName;
+      return await window.showDirectoryPicker!({
+        mode: 'readwrite'
+      });
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        return null; // User cancelled
+      }
+      throw error;
+    }
   }
 
-  async saveMetadataFile(data: any, fileName: string): Promise<void> {
-    if (!this.dirHandle) {
-      throw new Error('No folder selected');
+  getFolderHandle(): FileSystemDirectoryHandle | null {
+    return this.dirHandle;
+  }
+
+  // Files and project subfolders directly inside the selected folder
+  async listEntries(): Promise<{ files: File[]; directories: FileSystemDirectoryHandle[] }> {
+    const root = this.requireFolder();
+
+    const files: File[] = [];
+    const directories: FileSystemDirectoryHandle[] = [];
+    for await (const entry of root.values()) {
+      if (entry.kind === 'file') {
+        files.push(await entry.getFile());
+      } else {
+        directories.push(entry);
+      }
     }
+    return { files, directories };
+  }
+
+  static async readFiles(dirHandle: FileSystemDirectoryHandle): Promise<File[]> {
+    const files: File[] = [];
+    for await (const entry of dirHandle.values()) {
+      if (entry.kind === 'file') {
+        files.push(await entry.getFile());
+      }
+    }
+    return files;
+  }
+
+  async saveAudioFile(
+    audioBlob: Blob,
+    fileName: string,
+    targetDir?: FileSystemDirectoryHandle
+  ): Promise<string> {
+    await this.writeFile(targetDir ?? this.requireFolder(), fileName, audioBlob);
+    return fileName;
+  }
 
+  async saveMetadataFile(
+    data: any,
+    fileName: string,
+    targetDir?: FileSystemDirectoryHandle
+  ): Promise<void> {
     const json = JSON.stringify(data, null, 2);
     const blob = new Blob([json], { type: 'application/json' });
 
-    const fileHandle = await this.dirHandle.getFileHandle(fileName, {
-      create: true
-    });
+    await this.writeFile(targetDir ?? this.requireFolder(), fileName, blob);
+  }
 
-    const writable = await fileHandle.createWritable();
-    await writable.write(blob);
-    await writable.close();
+  async saveWordFile(
+    wordBlob: Blob,
+    fileName: string,
+    targetDir?: FileSystemDirectoryHandle
+  ): Promise<void> {
+    await this.writeFile(targetDir ?? this.requireFolder(), fileName, wordBlob);
   }
 
-  async saveWordFile(wordBlob: Blob, fileName: string): Promise<void> {
-    if (!this.dirHandle) {
-      throw new Error('No folder selected');
+  // Markdown, HTML or PDF minutes written next to the .docx
+  async saveMinutesFile(
+    blob: Blob,
+    fileName: string,
+    targetDir?: FileSystemDirectoryHandle
+  ): Promise<void> {
+    await this.writeFile(targetDir ?? this.requireFolder(), fileName, blob);
+  }
+
+  async projectExists(projectName: string): Promise<boolean> {
+    const root = this.requireFolder();
+    try {
+      await root.getDirectoryHandle(projectName);
+      return true;
+    } catch (error: any) {
+      // A file with the same name also blocks the folder name
+      if (error.name === 'TypeMismatchError') return true;
+      if (error.name === 'NotFoundError') return false;
+      throw error;
+    }
+  }
+
+  // Create the project's subfolder, suffixing the name if it is already taken
+  async createProjectDirectory(
+    projectName: string
+  ): Promise<{ name: string; handle: FileSystemDirectoryHandle }> {
+    const root = this.requireFolder();
+
+    let name = projectName;
+    for (let attempt = 2; await this.projectExists(name); attempt++) {
+      name = `${projectName}_${attempt}`;
     }
 
-    const fileHandle = await this.dirHandle.getFileHandle(fileName, {
+    const handle = await root.getDirectoryHandle(name, {
       create: true
     });
-
-    const writable = await fileHandle.createWritable();
-    await writable.write(wordBlob);
-    await writable.close();
+    return { name, handle };
   }
 
-  async createProjectDirectory(projectName: string): Promise<void> {
+  private requireFolder(): FileSystemDirectoryHandle {
     if (!this.dirHandle) {
-      throw new Error('No folder selected');
+      throw new Error(I18n.t('errors.noFolder'));
     }
+    return this.dirHandle;
+  }
 
-    // Create subdirectory for project
-    await this.dirHandle.getDirectoryHandle(projectName, {
+  private async writeFile(
+    dirHandle: FileSystemDirectoryHandle,
+    fileName: string,
+    data: Blob
+  ): Promise<void> {
+    const fileHandle = await dirHandle.getFileHandle(fileName, {
       create: true
     });
+
+    const writable = await fileHandle.createWritable();
+    await writable.write(data);
+    await writable.close();
   }
 
   // Check if File System Access API is supported
@@ -90,8 +187,8 @@ export class FileManagerService {
 
 // Fallback for browsers without File System Access API
 export class FileDownloadService {
-  async downloadAudioFile(audioBlob: Blob, fileName: string): Promise<void> {
-    const url = URL.createObjectURL(audioBlob);
+  async downloadFile(blob: Blob, fileName: string): Promise<void> {
+    const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
     a.download = fileName;
@@ -101,28 +198,16 @@ export class FileDownloadService {
     URL.revokeObjectURL(url);
   }
 
+  async downloadAudioFile(audioBlob: Blob, fileName: string): Promise<void> {
+    return this.downloadFile(audioBlob, fileName);
+  }
+
   async downloadMetadataFile(data: any, fileName: string): Promise<void> {
     const json = JSON.stringify(data, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = fileName;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    return this.downloadFile(new Blob([json], { type: 'application/json' }), fileName);
   }
 
   async downloadTextFile(content: string, fileName: string): Promise<void> {
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = fileName;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    return this.downloadFile(new Blob([content], { type: 'text/plain' }), fileName);
   }
 }
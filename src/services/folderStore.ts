@@ -0,0 +1,46 @@
+import { getDatabase } from './database';
+import type { FileSystemDirectoryHandle, RecentFolder } from '../types/types';
+
+const MAX_RECENT_FOLDERS = 5;
+
+export class FolderStore {
+  // Most recently used first
+  static async list(): Promise<RecentFolder[]> {
+    const db = await getDatabase();
+    const folders = await db.getAll('folders');
+    return folders.sort((a, b) => b.lastUsed - a.lastUsed);
+  }
+
+  // Record a folder as just used, reusing its entry if the same folder was picked before
+  static async remember(handle: FileSystemDirectoryHandle): Promise<RecentFolder[]> {
+    const db = await getDatabase();
+    const folders = await this.list();
+
+    let existing: RecentFolder | undefined;
+    for (const folder of folders) {
+      if (await folder.handle.isSameEntry(handle)) {
+        existing = folder;
+        break;
+      }
+    }
+
+    const entry: RecentFolder = {
+      id: existing?.id ?? `folder_${Date.now()}`,
+      name: handle.name,
+      handle,
+      lastUsed: Date.now()
+    };
+    await db.put('folders', entry);
+
+    const updated = [entry, ...folders.filter((folder) => folder.id !== entry.id)];
+    await Promise.all(
+      updated.slice(MAX_RECENT_FOLDERS).map((folder) => db.delete('folders', folder.id))
+    );
+    return updated.slice(0, MAX_RECENT_FOLDERS);
+  }
+
+  static async forget(id: string): Promise<void> {
+    const db = await getDatabase();
+    await db.delete('folders', id);
+  }
+}
@@ -0,0 +1,149 @@
+import { I18n } from '../i18n';
+import type { MessageKey } from '../i18n';
+import type { MinutesDocument, MinutesLine, MinutesSection } from '../types/types';
+
+const STYLES = `
+  body { max-width: 820px; margin: 40px auto; padding: 0 24px; color: #222; line-height: 1.5; }
+  .letterhead, h1, .page-header, .page-footer { text-align: center; }
+  .letterhead p { margin: 0; }
+  .organization { font-weight: bold; }
+  .page-header, .page-footer { color: #666; font-size: 0.9em; }
+  .page-footer { margin-top: 40px; border-top: 1px solid #ddd; padding-top: 8px; }
+  h2 { margin-top: 1.6em; border-bottom: 1px solid #ddd; padding-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #bbb; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f2f2f2; }
+  td.time { white-space: nowrap; font-family: monospace; }
+  .note { margin: 0 0 6px; }
+  .note.blank { margin: 0 0 12px; }
+  mark { font-weight: bold; background: #fff176; }
+`;
+
+export class HtmlExporter {
+  // Self-contained page: styles inline, no external resources
+  static render(minutes: MinutesDocument): string {
+    const { template } = minutes;
+    const fontStyle = [
+      template.fontFamily ? `font-family: "${template.fontFamily}", serif;` : 'font-family: sans-serif;',
+      template.fontSize ? `font-size: ${template.fontSize}pt;` : ''
+    ].join(' ');
+
+    const letterhead = [
+      template.organization.trim()
+        ? `<p class="organization">${this.escape(template.organization.trim().toUpperCase())}</p>`
+        : '',
+      ...template.letterhead
+        .split('\n')
+        .filter((line) => line.trim().length > 0)
+        .map((line) => `<p>${this.escape(line.trim())}</p>`)
+    ].join('');
+
+    const sections = minutes.sections
+      .map(
+        (section) =>
+          `<section class="${section}">\n<h2>${this.escape(minutes.headings[section])}</h2>\n` +
+          `${this.renderSection(minutes, section)}\n</section>`
+      )
+      .join('\n');
+
+    return [
+      '<!DOCTYPE html>',
+      `<html lang="${minutes.language}">`,
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${this.escape(template.title)}</title>`,
+      `<style>${STYLES}  body { ${fontStyle} }\n</style>`,
+      '</head>',
+      '<body>',
+      template.headerText ? `<header class="page-header">${this.escape(template.headerText)}</header>` : '',
+      letterhead ? `<div class="letterhead">${letterhead}</div>` : '',
+      `<h1>${this.escape(template.title)}</h1>`,
+      sections,
+      template.footerText ? `<footer class="page-footer">${this.escape(template.footerText)}</footer>` : '',
+      '</body>',
+      '</html>'
+    ]
+      .filter((line) => line.length > 0)
+      .join('\n') + '\n';
+  }
+
+  private static renderSection(minutes: MinutesDocument, section: MinutesSection): string {
+    const label = (key: MessageKey) => I18n.translate(minutes.language, key);
+
+    switch (section) {
+      case 'info':
+        return `<ul>${minutes.info
+          .map(({ label: name, value }) => `<li><strong>${this.escape(name)}:</strong> ${this.escape(value)}</li>`)
+          .join('')}</ul>`;
+      case 'attendance':
+        if (minutes.attendance.length === 0) return `<p>${label('export.notAvailable')}</p>`;
+        return this.table(
+          [label('export.number'), label('export.name'), label('export.organization'), label('export.role'), label('export.status')],
+          minutes.attendance.map((entry, index) => [
+            String(index + 1), entry.name, entry.organization, entry.role, entry.status
+          ].map((value) => this.escape(value)))
+        );
+      case 'notes':
+        if (minutes.layout === 'timestamps') {
+          return this.table(
+            [minutes.timeHeading, label('export.content')],
+            minutes.notes
+              .filter((line) => line.text.length > 0)
+              .map((line) => [this.escape(line.time), this.formatLine(line)]),
+            'time'
+          );
+        }
+        return minutes.notes
+          .map((line) =>
+            line.text ? `<p class="note">${this.formatLine(line)}</p>` : '<p class="note blank"></p>'
+          )
+          .join('\n');
+      case 'decisions':
+        return this.numberedList(minutes.decisions);
+      case 'actions':
+        return this.table(
+          [label('export.number'), label('export.content'), label('export.assignee'), label('export.dueDate')],
+          minutes.actions.map((item, index) =>
+            [String(index + 1), item.text, item.assignee, item.dueDate].map((value) => this.escape(value))
+          )
+        );
+      case 'questions':
+        return this.numberedList(minutes.questions);
+    }
+  }
+
+  // "Speaker: text"; highlighted lines are marked like the Word export
+  private static formatLine(line: MinutesLine): string {
+    const text = line.highlight ? `<mark>${this.escape(line.text)}</mark>` : this.escape(line.text);
+    return line.speaker ? `<strong>${this.escape(line.speaker)}:</strong> ${text}` : text;
+  }
+
+  private static numberedList(items: string[]): string {
+    return `<ol>${items.map((item) => `<li>${this.escape(item)}</li>`).join('')}</ol>`;
+  }
+
+  // Cells must already be HTML; firstColumnClass styles the leading column
+  private static table(headers: string[], rows: string[][], firstColumnClass?: string): string {
+    const head = headers.map((header) => `<th>${this.escape(header)}</th>`).join('');
+    const body = rows
+      .map(
+        (row) =>
+          `<tr>${row
+            .map((cell, index) =>
+              index === 0 && firstColumnClass ? `<td class="${firstColumnClass}">${cell}</td>` : `<td>${cell}</td>`
+            )
+            .join('')}</tr>`
+      )
+      .join('\n');
+    return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,113 @@
+import { I18n } from '../i18n';
+import type { MessageKey } from '../i18n';
+import type { MinutesDocument, MinutesLine, MinutesSection } from '../types/types';
+
+export class MarkdownExporter {
+  // Minutes as Markdown for pasting into a wiki
+  static render(minutes: MinutesDocument): string {
+    const { template } = minutes;
+    const blocks: string[] = [];
+
+    if (template.headerText) {
+      blocks.push(`_${this.escape(template.headerText)}_`);
+    }
+    const letterhead = [
+      template.organization.trim() ? `**${this.escape(template.organization.trim().toUpperCase())}**` : '',
+      ...template.letterhead.split('\n').map((line) => this.escape(line.trim()))
+    ].filter((line) => line.length > 0);
+    if (letterhead.length > 0) {
+      // Trailing backslash keeps letterhead lines apart without starting new paragraphs
+      blocks.push(letterhead.join('\\\n'));
+    }
+
+    blocks.push(`# ${this.escape(template.title)}`);
+    minutes.sections.forEach((section) => {
+      blocks.push(`## ${this.escape(minutes.headings[section])}`);
+      const content = this.renderSection(minutes, section);
+      if (content) blocks.push(content);
+    });
+
+    if (template.footerText) {
+      blocks.push('---', `_${this.escape(template.footerText)}_`);
+    }
+    return `${blocks.join('\n\n')}\n`;
+  }
+
+  private static renderSection(minutes: MinutesDocument, section: MinutesSection): string {
+    const label = (key: MessageKey) => I18n.translate(minutes.language, key);
+
+    switch (section) {
+      case 'info':
+        return minutes.info
+          .map(({ label: name, value }) => `- **${this.escape(name)}:** ${this.escape(value)}`)
+          .join('\n');
+      case 'attendance':
+        if (minutes.attendance.length === 0) return label('export.notAvailable');
+        return this.table(
+          [label('export.number'), label('export.name'), label('export.organization'), label('export.role'), label('export.status')],
+          minutes.attendance.map((entry, index) => [
+            String(index + 1), entry.name, entry.organization, entry.role, entry.status
+          ])
+        );
+      case 'notes':
+        return minutes.layout === 'timestamps'
+          ? this.table(
+              [minutes.timeHeading, label('export.content')],
+              minutes.notes
+                .filter((line) => line.text.length > 0)
+                .map((line) => [line.time, this.formatLine(line)]),
+              false
+            )
+          : this.formatParagraphs(minutes.notes);
+      case 'decisions':
+        return this.numberedList(minutes.decisions);
+      case 'actions':
+        return this.table(
+          [label('export.number'), label('export.content'), label('export.assignee'), label('export.dueDate')],
+          minutes.actions.map((item, index) => [String(index + 1), item.text, item.assignee, item.dueDate])
+        );
+      case 'questions':
+        return this.numberedList(minutes.questions);
+    }
+  }
+
+  // Consecutive lines stay one paragraph block (hard line breaks); blank lines separate paragraphs
+  private static formatParagraphs(lines: MinutesLine[]): string {
+    const paragraphs: string[][] = [[]];
+    lines.forEach((line) => {
+      if (line.text) {
+        paragraphs[paragraphs.length - 1].push(this.formatLine(line));
+      } else if (paragraphs[paragraphs.length - 1].length > 0) {
+        paragraphs.push([]);
+      }
+    });
+    return paragraphs
+      .filter((paragraph) => paragraph.length > 0)
+      .map((paragraph) => paragraph.join('\\\n'))
+      .join('\n\n');
+  }
+
+  // "**Speaker:** text"; highlighted lines are bold with a star
+  private static formatLine(line: MinutesLine): string {
+    const text = line.highlight ? `⭐ **${this.escape(line.text)}**` : this.escape(line.text);
+    return line.speaker ? `**${this.escape(line.speaker)}:** ${text}` : text;
+  }
+
+  private static numberedList(items: string[]): string {
+    return items.map((item, index) => `${index + 1}. ${this.escape(item)}`).join('\n');
+  }
+
+  // Cells are escaped (pipes included) unless they already hold formatted Markdown
+  private static table(headers: string[], rows: string[][], escapeCells = true): string {
+    const cell = (value: string) => (escapeCells ? this.escape(value) : value);
+    return [
+      `| ${headers.map((header) => this.escape(header)).join(' | ')} |`,
+      `| ${headers.map(() => '---').join(' | ')} |`,
+      ...rows.map((row) => `| ${row.map(cell).join(' | ')} |`)
+    ].join('\n');
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+  }
+}
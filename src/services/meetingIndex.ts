@@ -0,0 +1,366 @@
+import { getDatabase } from './database';
+import { ProjectLoader } from './projectLoader';
+import { MetadataBuilder } from './metadataBuilder';
+import { AudioFormats } from './audioFormats';
+import { FileManagerService } from './fileManager';
+import { Attendees } from './attendees';
+import { I18n } from '../i18n';
+import type {
+  FileSystemDirectoryHandle,
+  IndexedNoteLine,
+  LoadedProject,
+  MatchRange,
+  MeetingIndexEntry,
+  MeetingInfo,
+  MeetingMetadata,
+  MeetingSearchFilters,
+  MeetingSearchResult,
+  ProjectMetadata,
+  ProjectSummary,
+  TimestampRecord
+} from '../types/types';
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+const MAX_LINES_PER_MEETING = 20;
+
+interface ProjectContent {
+  projectName: string;
+  rootId: string;
+  root: FileSystemDirectoryHandle;
+  // Folder names from the root down to the project's folder, empty when the files sit in the root
+  path: string[];
+  directory: FileSystemDirectoryHandle;
+  meetingInfo: MeetingInfo;
+  timestamps: TimestampRecord[];
+  modified: number;
+}
+
+type SavedProject = Pick<ProjectContent, 'projectName' | 'directory' | 'meetingInfo' | 'timestamps' | 'modified'>;
+
+export class MeetingIndex {
+  // Index updates run one at a time, so two runs cannot each mint an id for the same new root
+  private static updates: Promise<unknown> = Promise.resolve();
+
+  // Lowercase and drop diacritics ("Quyết định" → "quyet dinh") one character at a time,
+  // so offsets in the folded text are offsets in the NFC text
+  static fold(text: string): string {
+    return Array.from(text.normalize('NFC'), (char) => {
+      const folded = char
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/đ/g, 'd');
+      return folded.length === char.length ? folded : char;
+    }).join('');
+  }
+
+  // Distinct folded words
+  static tokenize(text: string): string[] {
+    return Array.from(new Set(this.fold(text).match(WORD_PATTERN) ?? []));
+  }
+
+  // Where words starting with one of the terms occur in text, sorted
+  static findRanges(text: string, terms: string[]): MatchRange[] {
+    const folded = this.fold(text);
+    const ranges: MatchRange[] = [];
+    terms.forEach((term) => {
+      for (let at = folded.indexOf(term); at >= 0; at = folded.indexOf(term, at + 1)) {
+        if (at === 0 || !WORD_CHAR.test(folded[at - 1])) {
+          ranges.push([at, at + term.length]);
+        }
+      }
+    });
+    return ranges.sort((a, b) => a[0] - b[0]);
+  }
+
+  private static containsAll(text: string, terms: string[]): boolean {
+    return terms.every((term) => this.findRanges(text, [term]).length > 0);
+  }
+
+  static getId(rootId: string, path: string[], projectName: string): string {
+    return [rootId, ...path, projectName].join('/');
+  }
+
+  // Index or re-index a project just written to disk. A project already indexed keeps its
+  // entries; otherwise it is placed under the selected root, or stands alone outside it.
+  static indexProject(
+    project: SavedProject,
+    root: FileSystemDirectoryHandle | null
+  ): Promise<void> {
+    return this.queueUpdate(() => this.writeProject(project, root));
+  }
+
+  // Bring the index in line with a scanned root folder: changed projects are read again and
+  // projects no longer in the folder are dropped
+  static syncFolder(root: FileSystemDirectoryHandle, projects: ProjectSummary[]): Promise<void> {
+    return this.queueUpdate(() => this.writeFolder(root, projects));
+  }
+
+  private static queueUpdate(update: () => Promise<void>): Promise<void> {
+    const result = this.updates.then(update);
+    this.updates = result.catch(() => undefined);
+    return result;
+  }
+
+  private static async writeProject(
+    project: SavedProject,
+    root: FileSystemDirectoryHandle | null
+  ): Promise<void> {
+    const db = await getDatabase();
+    const entries = await db.getAll('meetingIndex');
+
+    const indexed: MeetingIndexEntry[] = [];
+    for (const entry of entries) {
+      const sameProject =
+        entry.projectName === project.projectName && (await entry.directory.isSameEntry(project.directory));
+      if (sameProject) indexed.push(entry);
+    }
+    if (indexed.length > 0) {
+      await Promise.all(
+        indexed.map(({ rootId, root, path }) =>
+          db.put('meetingIndex', this.buildEntry({ ...project, rootId, root, path }))
+        )
+      );
+      return;
+    }
+
+    const path = root ? await root.resolve(project.directory) : null;
+    const location = root && path ? { root, path } : { root: project.directory, path: [] };
+    const rootId = await this.getRootId(entries, location.root);
+    await db.put('meetingIndex', this.buildEntry({ ...project, ...location, rootId }));
+  }
+
+  private static async writeFolder(root: FileSystemDirectoryHandle, projects: ProjectSummary[]): Promise<void> {
+    const db = await getDatabase();
+    const entries = await db.getAll('meetingIndex');
+    const existing = new Map(entries.map((entry) => [entry.id, entry]));
+    const rootId = await this.getRootId(entries, root);
+    const seen = new Set<string>();
+
+    for (const project of projects) {
+      if (!project.directory) continue;
+
+      const path = await root.resolve(project.directory);
+      if (!path) continue;
+
+      const id = this.getId(rootId, path, project.projectName);
+      seen.add(id);
+      // Unchanged projects are not read again
+      if (existing.get(id)?.modified === this.lastModified(project)) continue;
+
+      const content = await this.readProject(project, { rootId, root, path });
+      if (content) {
+        await db.put('meetingIndex', this.buildEntry(content));
+      }
+    }
+
+    await Promise.all(
+      entries
+        .filter((entry) => entry.rootId === rootId && !seen.has(entry.id))
+        .map((entry) => db.delete('meetingIndex', entry.id))
+    );
+  }
+
+  // Meetings holding every query word, newest first. An empty query lists every meeting the filters allow.
+  static async search(query: string, filters: MeetingSearchFilters): Promise<MeetingSearchResult[]> {
+    const db = await getDatabase();
+    const terms = this.tokenize(query);
+
+    let entries: MeetingIndexEntry[];
+    if (terms.length === 0) {
+      entries = await db.getAll('meetingIndex');
+    } else {
+      // Only meetings with a word starting with every term can match
+      let ids: string[] | null = null;
+      for (const term of terms) {
+        const found = new Set<string>(
+          await db.getAllKeysFromIndex('meetingIndex', 'byTerm', IDBKeyRange.bound(term, `${term}\uffff`))
+        );
+        ids = ids === null ? Array.from(found) : ids.filter((id) => found.has(id));
+        if (ids.length === 0) return [];
+      }
+      const candidates = await Promise.all((ids ?? []).map((id) => db.get('meetingIndex', id)));
+      entries = candidates.filter((entry): entry is MeetingIndexEntry => entry !== undefined);
+    }
+
+    return entries
+      .filter((entry) => this.matchesFilters(entry, filters))
+      .map((entry) => ({
+        entry,
+        infoMatch:
+          terms.length === 0 ||
+          this.containsAll(
+            [entry.title, entry.host, entry.location, ...entry.attendees].join(' \n '),
+            terms
+          ),
+        lines:
+          terms.length === 0
+            ? []
+            : entry.lines.filter((line) => this.containsAll(line.text, terms)).slice(0, MAX_LINES_PER_MEETING)
+      }))
+      .filter((result) => result.infoMatch || result.lines.length > 0)
+      .sort((a, b) =>
+        `${b.entry.date} ${b.entry.time}`.localeCompare(`${a.entry.date} ${a.entry.time}`)
+      );
+  }
+
+  // Values offered by the host and attendee filters
+  static async getFacets(): Promise<{ meetingCount: number; hosts: string[]; attendees: string[] }> {
+    const db = await getDatabase();
+    const entries = await db.getAll('meetingIndex');
+    const sorted = (names: string[]) =>
+      Array.from(new Set(names.filter((name) => name.length > 0))).sort((a, b) => a.localeCompare(b));
+
+    return {
+      meetingCount: entries.length,
+      hosts: sorted(entries.map((entry) => entry.host)),
+      attendees: sorted(entries.flatMap((entry) => entry.attendees))
+    };
+  }
+
+  static clear(): Promise<void> {
+    return this.queueUpdate(async () => {
+      const db = await getDatabase();
+      await db.clear('meetingIndex');
+    });
+  }
+
+  // Read a project back from its folder; asks for access again when the folder permission lapsed
+  static async openProject(entry: MeetingIndexEntry): Promise<LoadedProject> {
+    let state = await entry.directory.queryPermission({ mode: 'readwrite' });
+    if (state === 'prompt') {
+      state = await entry.directory.requestPermission({ mode: 'readwrite' });
+    }
+    if (state !== 'granted') {
+      throw new Error(I18n.t('errors.searchFolderDenied', { name: entry.folderName }));
+    }
+
+    const files = await FileManagerService.readFiles(entry.directory);
+    return ProjectLoader.loadFromFiles(ProjectLoader.projectFiles(files, entry.projectName), entry.directory);
+  }
+
+  // Folders can share a name, so roots are told apart with isSameEntry; a root not indexed yet gets a new id
+  private static async getRootId(
+    entries: MeetingIndexEntry[],
+    root: FileSystemDirectoryHandle
+  ): Promise<string> {
+    const checked = new Set<string>();
+    for (const entry of entries) {
+      if (checked.has(entry.rootId)) continue;
+      checked.add(entry.rootId);
+      if (await entry.root.isSameEntry(root)) return entry.rootId;
+    }
+    return `root_${Date.now()}`;
+  }
+
+  private static matchesFilters(entry: MeetingIndexEntry, filters: MeetingSearchFilters): boolean {
+    if (filters.dateFrom && !(entry.date && entry.date >= filters.dateFrom)) return false;
+    if (filters.dateTo && !(entry.date && entry.date <= filters.dateTo)) return false;
+    if (filters.host && this.fold(entry.host) !== this.fold(filters.host)) return false;
+    if (filters.attendee) {
+      const attendee = this.fold(filters.attendee);
+      if (!entry.attendees.some((name) => this.fold(name) === attendee)) return false;
+    }
+    return true;
+  }
+
+  private static jsonFiles(project: ProjectSummary): { infoFile?: File; metadataFile?: File } {
+    return {
+      infoFile: project.files.find((file) => file.name === `${project.projectName}_meeting_info.json`),
+      metadataFile: project.files.find((file) => file.name === 'metadata.json')
+    };
+  }
+
+  // Newest lastModified of the files the entry is built from
+  private static lastModified(project: ProjectSummary): number {
+    const { infoFile, metadataFile } = this.jsonFiles(project);
+    return Math.max(infoFile?.lastModified ?? 0, metadataFile?.lastModified ?? 0);
+  }
+
+  private static async readProject(
+    project: ProjectSummary,
+    location: Pick<ProjectContent, 'rootId' | 'root' | 'path'>
+  ): Promise<ProjectContent | null> {
+    const { infoFile, metadataFile } = this.jsonFiles(project);
+    if (!project.directory || (!infoFile && !metadataFile)) return null;
+
+    try {
+      const meetingInfo: MeetingInfo = infoFile
+        ? ProjectLoader.toMeetingInfo(JSON.parse(await infoFile.text()) as MeetingMetadata)
+        : {
+            title: project.title,
+            date: project.date,
+            time: project.time,
+            location: '',
+            host: project.host,
+            attendees: ''
+          };
+
+      // metadata.json only belongs to this project if it points at the same recording
+      const audioFile = project.files.find(
+        (file) =>
+          AudioFormats.isAudioFileName(file.name) &&
+          AudioFormats.stripExtension(file.name) === project.projectName
+      );
+      const metadata = metadataFile
+        ? (JSON.parse(await metadataFile.text()) as ProjectMetadata)
+        : null;
+      const ownMetadata = metadata && metadata.AudioFileName === audioFile?.name ? metadata : null;
+
+      return {
+        projectName: project.projectName,
+        ...location,
+        directory: project.directory,
+        meetingInfo,
+        timestamps: ownMetadata?.Timestamps ?? [],
+        modified: this.lastModified(project)
+      };
+    } catch (error) {
+      console.warn(`Could not index ${project.projectName}:`, error);
+      return null;
+    }
+  }
+
+  private static buildEntry(content: ProjectContent): MeetingIndexEntry {
+    const { meetingInfo } = content;
+    const normalize = (text: string) => text.normalize('NFC');
+
+    // Same line order as ProjectLoader uses when the project is reopened
+    const lines: IndexedNoteLine[] = [...content.timestamps]
+      .sort((a, b) => a.Index - b.Index)
+      .map((entry, index) => ({
+        index,
+        text: normalize(entry.Text),
+        offsetMs: MetadataBuilder.parseTimestamp(entry.StartTime)
+      }));
+    const attendees = Attendees.roster(meetingInfo)
+      .map((entry) => normalize(entry.name.trim()))
+      .filter((name) => name.length > 0);
+
+    const entry = {
+      id: this.getId(content.rootId, content.path, content.projectName),
+      projectName: content.projectName,
+      rootId: content.rootId,
+      root: content.root,
+      path: content.path,
+      folderName: content.root.name,
+      directory: content.directory,
+      title: normalize(meetingInfo.title),
+      date: meetingInfo.date,
+      time: meetingInfo.time,
+      location: normalize(meetingInfo.location),
+      host: normalize(meetingInfo.host.trim()),
+      attendees,
+      lines,
+      modified: content.modified
+    };
+
+    return {
+      ...entry,
+      terms: this.tokenize(
+        [entry.title, entry.location, entry.host, ...attendees, ...lines.map((line) => line.text)].join('\n')
+      )
+    };
+  }
+}
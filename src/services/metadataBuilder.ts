@@ -1,6 +1,15 @@
+import { Attendees } from './attendees';
+import { I18n } from '../i18n';
 import type {
   MeetingInfo,
-  MeetingMetadata
+  MeetingMetadata,
+  MetadataBuildOptions,
+  NoteItemRecord,
+  NoteLine,
+  NoteLineMeta,
+  PauseInterval,
+  ProjectMetadata,
+  TimestampRecord
 } from '../types/types';
 
 export class MetadataBuilder {
@@ -10,10 +19,21 @@ export class MetadataBuilder {
     timestampMap: Map<number, number>,
     duration: number,
     audioFileName: string,
-    recordingStartTime: number
+    recordingStartTime: number,
+    options: MetadataBuildOptions = {}
   ) {
+    const pauses = options.pauses ?? [];
+    const lineMeta = options.lineMeta ?? new Map<number, NoteLineMeta>();
+
     // Extract timestamps from notes with proper text content
-    const timestamps = this.extractTimestamps(notes, timestampMap, duration, recordingStartTime);
+    const timestamps = this.extractTimestamps(
+      notes,
+      timestampMap,
+      duration,
+      recordingStartTime,
+      pauses,
+      lineMeta
+    );
 
     // Meeting info JSON (compatible with C# SaveMeetingMetadataToJson)
     const meetingInfoJson: MeetingMetadata = {
@@ -23,18 +43,26 @@ export class MetadataBuilder {
       Location: meetingInfo.location,
       Host: meetingInfo.host,
       Attendees: meetingInfo.attendees,
+      AttendeeRoster: Attendees.toMetadata(Attendees.roster(meetingInfo)),
+      TemplateId: meetingInfo.templateId,
       CreatedAt: new Date().toISOString()
     };
 
     // Metadata JSON with new structure
-    const metadataJson = {
-      ProjectName: audioFileName.replace('.wav', ''),
+    const metadataJson: ProjectMetadata = {
+      ProjectName: audioFileName.replace(/\.[^.]+$/, ''),
       Model: 'Live Recording',
-      Language: 'vi',
+      Language: options.language ?? I18n.loadExportLanguage(),
       OriginalFileName: audioFileName,
       AudioFileName: audioFileName,
       Duration: this.formatDurationWithMs(duration),
-      Timestamps: timestamps
+      RecordingStartTime: recordingStartTime > 0 ? new Date(recordingStartTime).toISOString() : undefined,
+      Pauses: pauses.map((pause) => ({
+        Start: new Date(pause.start).toISOString(),
+        End: new Date(pause.end ?? pause.start).toISOString()
+      })),
+      Timestamps: timestamps,
+      Items: this.extractItems(notes, timestampMap, recordingStartTime, pauses, lineMeta)
     };
 
     return {
@@ -43,20 +71,81 @@ export class MetadataBuilder {
     };
   }
 
-  private static extractTimestamps(
+  // StartTime/EndTime per line; the last line ends at totalDuration at the latest
+  static extractTimestamps(
     notes: string,
     timestampMap: Map<number, number>,
     totalDuration: number,
-    recordingStartTime: number
-  ): Array<{ Index: number; Text: string; DateTime: string; StartTime: string; EndTime: string; Highlight: boolean }> {
-    const timestamps: Array<{ Index: number; Text: string; DateTime: string; StartTime: string; EndTime: string; Highlight: boolean }> = [];
-    
-    // Sort timestamps by datetime
-    const sortedTimestamps = Array.from(timestampMap.entries())
-      .sort((a, b) => a[1] - b[1]);
-    
+    recordingStartTime: number,
+    pauses: PauseInterval[],
+    lineMeta: Map<number, NoteLineMeta>
+  ): TimestampRecord[] {
+    const noteLines = this.buildNoteLines(notes, timestampMap, recordingStartTime, pauses, lineMeta);
+
+    return noteLines.map((line, i) => {
+      // Find next timestamp or use total duration
+      const nextDatetimeMs = i < noteLines.length - 1 ? noteLines[i + 1].datetimeMs : line.datetimeMs + 3000;
+      const endTimeMs = recordingStartTime > 0
+        ? Math.min(this.toAudioOffset(nextDatetimeMs, recordingStartTime, pauses), totalDuration)
+        : line.audioOffsetMs + 3000;
+
+      return {
+        Index: i,
+        Text: line.text,
+        DateTime: new Date(line.datetimeMs).toISOString(),
+        StartTime: this.formatDurationWithMs(line.audioOffsetMs),
+        EndTime: this.formatDurationWithMs(endTimeMs),
+        Highlight: line.highlight ?? false,
+        Speaker: line.speaker
+      };
+    });
+  }
+
+  // Action items, decisions and questions in note order, timestamped or not
+  private static extractItems(
+    notes: string,
+    timestampMap: Map<number, number>,
+    recordingStartTime: number,
+    pauses: PauseInterval[],
+    lineMeta: Map<number, NoteLineMeta>
+  ): NoteItemRecord[] {
+    const items: NoteItemRecord[] = [];
+    let position = 0;
+
+    notes.split('\n').forEach((line) => {
+      const meta = lineMeta.get(position);
+      const datetimeMs = timestampMap.get(position);
+      position += line.length + 1;
+
+      if (!meta?.type || line.trim().length === 0) return;
+
+      items.push({
+        Index: items.length,
+        Type: meta.type,
+        Text: line.trim(),
+        Assignee: meta.type === 'action' ? meta.assignee : undefined,
+        DueDate: meta.type === 'action' ? meta.dueDate : undefined,
+        Speaker: meta.speaker,
+        DateTime: datetimeMs !== undefined ? new Date(datetimeMs).toISOString() : undefined,
+        StartTime: datetimeMs !== undefined
+          ? this.formatDurationWithMs(this.toAudioOffset(datetimeMs, recordingStartTime, pauses))
+          : undefined
+      });
+    });
+
+    return items;
+  }
+
+  // Timestamped note lines in chronological order, with their offset into the recorded audio
+  static buildNoteLines(
+    notes: string,
+    timestampMap: Map<number, number>,
+    recordingStartTime: number,
+    pauses: PauseInterval[] = [],
+    lineMeta: Map<number, NoteLineMeta> = new Map()
+  ): NoteLine[] {
     const lines = notes.split('\n');
-    
+
     // Build position to line index map
     const positionToLineMap = new Map<number, number>();
     let currentPos = 0;
@@ -65,31 +154,60 @@ export class MetadataBuilder {
       currentPos += lines[i].length + 1; // +1 for newline
     }
 
-    for (let i = 0; i < sortedTimestamps.length; i++) {
-      const [position, datetimeMs] = sortedTimestamps[i];
-      
-      // Find line index using position map
-      const lineIndex = positionToLineMap.get(position) ?? 0;
-      const text = lines[lineIndex] || '';
-      
-      // Calculate relative start time from recording start
-      const startTimeMs = recordingStartTime > 0 ? Math.max(0, datetimeMs - recordingStartTime) : 0;
-      
-      // Find next timestamp or use total duration
-      const nextDatetimeMs = i < sortedTimestamps.length - 1 ? sortedTimestamps[i + 1][1] : datetimeMs + 3000;
-      const endTimeMs = recordingStartTime > 0 ? Math.min(nextDatetimeMs - recordingStartTime, totalDuration) : startTimeMs + 3000;
-
-      timestamps.push({
-        Index: i,
-        Text: text.trim(),
-        DateTime: new Date(datetimeMs).toISOString(),
-        StartTime: this.formatDurationWithMs(startTimeMs),
-        EndTime: this.formatDurationWithMs(endTimeMs),
-        Highlight: false
+    return Array.from(timestampMap.entries())
+      .sort((a, b) => a[1] - b[1])
+      .map(([position, datetimeMs]) => {
+        const lineIndex = positionToLineMap.get(position) ?? 0;
+        return {
+          lineIndex,
+          position,
+          text: (lines[lineIndex] || '').trim(),
+          datetimeMs,
+          // Relative start time on the recorded (paused-out) timeline
+          audioOffsetMs: this.toAudioOffset(datetimeMs, recordingStartTime, pauses),
+          speaker: lineMeta.get(position)?.speaker,
+          highlight: lineMeta.get(position)?.highlight
+        };
       });
+  }
+
+  // Map a wall-clock time onto the recorded audio, skipping paused spans.
+  // Times inside a pause snap to the point where recording resumed.
+  static toAudioOffset(
+    datetimeMs: number,
+    recordingStartTime: number,
+    pauses: PauseInterval[] = []
+  ): number {
+    if (recordingStartTime <= 0) return 0;
+
+    let offset = datetimeMs - recordingStartTime;
+    for (const pause of pauses) {
+      if (datetimeMs <= pause.start) break;
+
+      const pauseEnd = pause.end ?? Infinity;
+      if (datetimeMs < pauseEnd) {
+        offset -= datetimeMs - pause.start;
+        break;
+      }
+      offset -= pauseEnd - pause.start;
+    }
+
+    return Math.max(0, offset);
+  }
+
+  // Inverse of toAudioOffset: the wall-clock time at which the audio reached offsetMs
+  static fromAudioOffset(
+    offsetMs: number,
+    recordingStartTime: number,
+    pauses: PauseInterval[] = []
+  ): number {
+    let datetimeMs = recordingStartTime + Math.max(0, offsetMs);
+    for (const pause of pauses) {
+      if (datetimeMs <= pause.start || pause.end === null) break;
+      datetimeMs += pause.end - pause.start;
     }
 
-    return timestamps;
+    return datetimeMs;
   }
 
   static formatDuration(ms: number): string {
@@ -116,15 +234,16 @@ export class MetadataBuilder {
       .padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}0000`;
   }
 
-  // Parse timestamp string to milliseconds
+  // Parse timestamp string (HH:MM:SS with optional fraction) to milliseconds
   static parseTimestamp(timeStr: string): number {
-    const parts = timeStr.match(/(\d{2}):(\d{2}):(\d{2})/);
+    const parts = timeStr.match(/(\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?/);
     if (!parts) return 0;
 
     const hours = parseInt(parts[1], 10);
     const minutes = parseInt(parts[2], 10);
     const seconds = parseInt(parts[3], 10);
+    const milliseconds = parts[4] ? parseInt(parts[4].padEnd(3, '0'), 10) : 0;
 
-    return (hours * 3600 + minutes * 60 + seconds) * 1000;
+    return (hours * 3600 + minutes * 60 + seconds) * 1000 + milliseconds;
   }
 }
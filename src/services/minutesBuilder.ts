@@ -0,0 +1,162 @@
+import { Attendees, ATTENDEE_ROLES, ATTENDANCE_STATUSES } from './attendees';
+import { MetadataBuilder } from './metadataBuilder';
+import { TemplateStore } from './templateStore';
+import { I18n } from '../i18n';
+import type { MessageKey } from '../i18n';
+import type {
+  MeetingInfo,
+  MinutesDocument,
+  MinutesLine,
+  MinutesSection,
+  NoteLineMeta,
+  NoteLineType,
+  WordExportOptions,
+  WordTimeFormat
+} from '../types/types';
+
+// Item sections only appear when the notes contain such lines
+const OPTIONAL_SECTIONS: MinutesSection[] = ['decisions', 'actions', 'questions'];
+
+export class MinutesBuilder {
+  // Collect everything the minutes show, in the export language and the meeting's template
+  static async build(
+    meetingInfo: MeetingInfo,
+    notesText: string,
+    options: WordExportOptions = {}
+  ): Promise<MinutesDocument> {
+    const language = options.language ?? I18n.loadExportLanguage();
+    const label = (key: MessageKey) => I18n.translate(language, key);
+    const template = options.template ?? await TemplateStore.get(meetingInfo.templateId, language);
+    const { labels } = template;
+
+    // Without a recording there is no offset to show, so fall back to the clock time
+    const hasRecording = (options.recordingStartTime ?? 0) > 0;
+    const timeFormat: WordTimeFormat = hasRecording ? options.timeFormat ?? 'relative' : 'absolute';
+
+    const notes = this.buildLines(notesText, options, timeFormat);
+    const items = this.collectItems(notesText, options.lineMeta ?? new Map());
+    const ofType = (type: NoteLineType) => items.filter((item) => item.meta.type === type);
+
+    const minutes: MinutesDocument = {
+      language,
+      template,
+      sections: [],
+      headings: {
+        info: labels.infoHeading,
+        attendance: labels.attendanceHeading,
+        notes: labels.notesHeading,
+        decisions: labels.decisionsHeading,
+        actions: labels.actionsHeading,
+        questions: labels.questionsHeading
+      },
+      info: [
+        { label: labels.title, value: meetingInfo.title },
+        { label: labels.date, value: meetingInfo.date },
+        { label: labels.time, value: meetingInfo.time },
+        { label: labels.location, value: meetingInfo.location || label('export.notAvailable') },
+        { label: labels.host, value: meetingInfo.host || label('export.notAvailable') }
+      ],
+      attendance: Attendees.roster(meetingInfo)
+        .filter((entry) => entry.name.trim().length > 0)
+        .map((entry) => ({
+          name: entry.name.trim(),
+          organization: entry.organization.trim(),
+          role: label(ATTENDEE_ROLES[entry.role]),
+          status: label(ATTENDANCE_STATUSES[entry.status])
+        })),
+      layout: options.layout ?? 'text',
+      timeHeading: label(timeFormat === 'relative' ? 'export.recordingTime' : 'export.clockTime'),
+      notes,
+      decisions: ofType('decision').map((item) => item.text),
+      actions: ofType('action').map((item) => ({
+        text: item.text,
+        assignee: item.meta.assignee ?? '',
+        dueDate: item.meta.dueDate ?? ''
+      })),
+      questions: ofType('question').map((item) => item.text)
+    };
+
+    minutes.sections = template.sections.filter(
+      (section) => !OPTIONAL_SECTIONS.includes(section) || this.hasContent(minutes, section)
+    );
+    return minutes;
+  }
+
+  static hasContent(minutes: MinutesDocument, section: MinutesSection): boolean {
+    switch (section) {
+      case 'decisions':
+        return minutes.decisions.length > 0;
+      case 'actions':
+        return minutes.actions.length > 0;
+      case 'questions':
+        return minutes.questions.length > 0;
+      default:
+        return true;
+    }
+  }
+
+  // Every note line with its annotations and the time of its timestamp, if any
+  private static buildLines(
+    text: string,
+    options: WordExportOptions,
+    timeFormat: WordTimeFormat
+  ): MinutesLine[] {
+    const lineMeta = options.lineMeta ?? new Map<number, NoteLineMeta>();
+    const noteLines = MetadataBuilder.buildNoteLines(
+      text,
+      options.timestampMap ?? new Map(),
+      options.recordingStartTime ?? 0,
+      options.pauses ?? []
+    );
+    const linesByPosition = new Map(noteLines.map((line) => [line.position, line]));
+
+    let position = 0;
+    return text.split('\n').map((line) => {
+      const noteLine = linesByPosition.get(position);
+      const meta = lineMeta.get(position);
+      position += line.length + 1;
+
+      return {
+        text: line.trim(),
+        time: noteLine
+          ? this.formatLineTime(noteLine.datetimeMs, noteLine.audioOffsetMs, timeFormat)
+          : '',
+        speaker: meta?.speaker,
+        highlight: meta?.highlight
+      };
+    });
+  }
+
+  private static formatLineTime(
+    datetimeMs: number,
+    audioOffsetMs: number,
+    timeFormat: WordTimeFormat
+  ): string {
+    if (timeFormat === 'relative') {
+      return MetadataBuilder.formatDuration(audioOffsetMs);
+    }
+
+    const date = new Date(datetimeMs);
+    return [date.getHours(), date.getMinutes(), date.getSeconds()]
+      .map((part) => String(part).padStart(2, '0'))
+      .join(':');
+  }
+
+  // Lines marked as action item, decision or question, in note order
+  private static collectItems(
+    text: string,
+    lineMeta: Map<number, NoteLineMeta>
+  ): Array<{ text: string; meta: NoteLineMeta }> {
+    const items: Array<{ text: string; meta: NoteLineMeta }> = [];
+    let position = 0;
+
+    text.split('\n').forEach((line) => {
+      const meta = lineMeta.get(position);
+      position += line.length + 1;
+      if (meta?.type && line.trim()) {
+        items.push({ text: line.trim(), meta });
+      }
+    });
+    return items;
+  }
+}
@@ -0,0 +1,107 @@
+import { saveAs } from 'file-saver';
+import { WordExporter } from './wordExporter';
+import { MinutesBuilder } from './minutesBuilder';
+import { MarkdownExporter } from './markdownExporter';
+import { HtmlExporter } from './htmlExporter';
+import { PdfExporter } from './pdfExporter';
+import { SubtitleExporter } from './subtitleExporter';
+import { loadStoredSettings, saveStoredSettings } from './storedSettings';
+import type { MessageKey } from '../i18n';
+import type {
+  ExportFormat,
+  MeetingInfo,
+  MinutesExportSettings,
+  WordExportOptions
+} from '../types/types';
+
+const SETTINGS_KEY = 'minutesExportSettings';
+
+interface MinutesFormatInfo {
+  label: MessageKey;
+  extension: string;
+  mimeType: string;
+}
+
+export const MINUTES_FORMATS: Record<ExportFormat, MinutesFormatInfo> = {
+  docx: {
+    label: 'exportFormats.docx',
+    extension: 'docx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  },
+  markdown: { label: 'exportFormats.markdown', extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  html: { label: 'exportFormats.html', extension: 'html', mimeType: 'text/html;charset=utf-8' },
+  pdf: { label: 'exportFormats.pdf', extension: 'pdf', mimeType: 'application/pdf' },
+  srt: { label: 'exportFormats.srt', extension: 'srt', mimeType: 'application/x-subrip;charset=utf-8' },
+  vtt: { label: 'exportFormats.vtt', extension: 'vtt', mimeType: 'text/vtt;charset=utf-8' }
+};
+
+const DEFAULT_SETTINGS: MinutesExportSettings = { extraFormats: [] };
+
+// Document formats are rendered from the same MinutesDocument, so they always agree;
+// subtitles come from the same StartTime/EndTime as metadata.json
+export class MinutesExporter {
+  static async createBlob(
+    format: ExportFormat,
+    meetingInfo: MeetingInfo,
+    notesText: string,
+    options: WordExportOptions = {}
+  ): Promise<Blob> {
+    if (format === 'docx') {
+      return WordExporter.createWordBlob(meetingInfo, notesText, options);
+    }
+    if (format === 'srt' || format === 'vtt') {
+      return new Blob([SubtitleExporter.render(format, notesText, options)], {
+        type: MINUTES_FORMATS[format].mimeType
+      });
+    }
+
+    const minutes = await MinutesBuilder.build(meetingInfo, notesText, options);
+    const { mimeType } = MINUTES_FORMATS[format];
+    switch (format) {
+      case 'markdown':
+        return new Blob([MarkdownExporter.render(minutes)], { type: mimeType });
+      case 'html':
+        return new Blob([HtmlExporter.render(minutes)], { type: mimeType });
+      case 'pdf':
+        return PdfExporter.render(minutes);
+    }
+  }
+
+  static getFileName(projectName: string, format: ExportFormat): string {
+    return `${projectName}.${MINUTES_FORMATS[format].extension}`;
+  }
+
+  // Export with auto-download
+  static async exportFile(
+    format: ExportFormat,
+    meetingInfo: MeetingInfo,
+    notesText: string,
+    projectName: string,
+    options: WordExportOptions = {}
+  ): Promise<void> {
+    const blob = await this.createBlob(format, meetingInfo, notesText, options);
+    saveAs(blob, this.getFileName(projectName, format));
+  }
+
+  // "Also save as" formats that can be written; subtitles are skipped without a recording start
+  static writableFormats(formats: ExportFormat[], options: WordExportOptions): ExportFormat[] {
+    return formats.filter(
+      (format) => (format !== 'srt' && format !== 'vtt') || (options.recordingStartTime ?? 0) > 0
+    );
+  }
+
+  static loadSettings(): MinutesExportSettings {
+    const settings = loadStoredSettings(
+      SETTINGS_KEY,
+      (stored) => Array.isArray(stored.extraFormats),
+      DEFAULT_SETTINGS
+    );
+    return {
+      extraFormats: settings.extraFormats.filter((format) => format in MINUTES_FORMATS && format !== 'docx')
+    };
+  }
+
+  static saveSettings(settings: MinutesExportSettings): void {
+    saveStoredSettings(SETTINGS_KEY, settings);
+  }
+}
@@ -0,0 +1,43 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { WavUtils, WAV_HEADER_SIZE } from './wavUtils';
+
+// MP3 frames hold 1152 samples per channel; encode a few hundred frames per slice
+const SAMPLES_PER_SLICE = 1152 * 256;
+
+export class Mp3Converter {
+  // Encode a 16-bit PCM WAV to MP3 slice by slice so long meetings never sit in memory twice
+  static async fromWav(wav: Blob, kbps: number): Promise<Blob> {
+    const { channels, sampleRate } = await WavUtils.readFormat(wav);
+    const encoder = new Mp3Encoder(channels, sampleRate, kbps);
+    const sliceBytes = SAMPLES_PER_SLICE * channels * 2;
+    const parts: BlobPart[] = [];
+
+    for (let offset = WAV_HEADER_SIZE; offset < wav.size; offset += sliceBytes) {
+      const buffer = await wav.slice(offset, Math.min(offset + sliceBytes, wav.size)).arrayBuffer();
+      const samples = new Int16Array(buffer, 0, Math.floor(buffer.byteLength / 2));
+
+      const encoded = channels === 1
+        ? encoder.encodeBuffer(samples)
+        : encoder.encodeBuffer(...this.deinterleave(samples));
+      if (encoded.length > 0) {
+        parts.push(new Uint8Array(encoded));
+      }
+
+      // Yield so the UI stays responsive while encoding
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    parts.push(new Uint8Array(encoder.flush()));
+    return new Blob(parts, { type: 'audio/mpeg' });
+  }
+
+  private static deinterleave(samples: Int16Array): [Int16Array, Int16Array] {
+    const left = new Int16Array(samples.length / 2);
+    const right = new Int16Array(samples.length / 2);
+    for (let i = 0; i < left.length; i++) {
+      left[i] = samples[i * 2];
+      right[i] = samples[i * 2 + 1];
+    }
+    return [left, right];
+  }
+}
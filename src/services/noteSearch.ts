@@ -0,0 +1,64 @@
+import type { NoteMatch, NoteSearchOptions } from '../types/types';
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class NoteSearch {
+  // Global pattern for the query, or null when it is empty or not a valid regular expression
+  static buildPattern(query: string, options: NoteSearchOptions): RegExp | null {
+    if (!query) return null;
+
+    try {
+      return new RegExp(
+        options.regex ? query : escapeRegExp(query),
+        `gu${options.caseSensitive ? '' : 'i'}`
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  // Every non-empty match, in line order; empty matches (e.g. "^" or "a*") are skipped
+  static findMatches(lines: string[], pattern: RegExp): NoteMatch[] {
+    const matches: NoteMatch[] = [];
+    lines.forEach((text, line) => {
+      for (const match of text.matchAll(pattern)) {
+        if (match[0].length > 0) {
+          matches.push({ line, start: match.index, end: match.index + match[0].length });
+        }
+      }
+    });
+    return matches;
+  }
+
+  // Replace the occurrence found at start, with the whole line as context for lookarounds and
+  // anchors. Regex replacements may use $1 and $<name>; plain ones are inserted literally.
+  static replaceAt(
+    text: string,
+    start: number,
+    pattern: RegExp,
+    replacement: string,
+    options: NoteSearchOptions
+  ): string {
+    // A sticky, non-global pattern matches only at lastIndex and replaces that one match
+    const sticky = new RegExp(pattern.source, pattern.flags.replace('g', '') + 'y');
+    sticky.lastIndex = start;
+    return text.replace(sticky, options.regex ? replacement : replacement.replace(/\$/g, '$$$$'));
+  }
+
+  // Replace the given matches; later ones in a line go first so earlier offsets stay valid
+  static replaceMatches(
+    lines: string[],
+    matches: NoteMatch[],
+    pattern: RegExp,
+    replacement: string,
+    options: NoteSearchOptions
+  ): string[] {
+    const result = [...lines];
+    [...matches]
+      .sort((a, b) => a.line - b.line || b.start - a.start)
+      .forEach((match) => {
+        result[match.line] = this.replaceAt(result[match.line], match.start, pattern, replacement, options);
+      });
+    return result;
+  }
+}
@@ -0,0 +1,30 @@
+import { loadStoredSettings, saveStoredSettings } from './storedSettings';
+import type { NoteTimingSettings } from '../types/types';
+
+const SETTINGS_KEY = 'noteTimingSettings';
+
+const DEFAULT_SETTINGS: NoteTimingSettings = { lagSeconds: 0, nudgeSeconds: 1 };
+
+export class NoteTiming {
+  // Time to stamp on a line started now: the lag is taken off, but never before the recording began
+  static stamp(settings: NoteTimingSettings, recordingStartTime: number, now = Date.now()): number {
+    const stamped = now - settings.lagSeconds * 1000;
+    return recordingStartTime > 0 && recordingStartTime <= now
+      ? Math.max(stamped, recordingStartTime)
+      : stamped;
+  }
+
+  static loadSettings(): NoteTimingSettings {
+    return loadStoredSettings(
+      SETTINGS_KEY,
+      ({ lagSeconds, nudgeSeconds }) =>
+        typeof lagSeconds === 'number' && Number.isFinite(lagSeconds) && lagSeconds >= 0 &&
+        typeof nudgeSeconds === 'number' && Number.isFinite(nudgeSeconds) && nudgeSeconds > 0,
+      DEFAULT_SETTINGS
+    );
+  }
+
+  static saveSettings(settings: NoteTimingSettings): void {
+    saveStoredSettings(SETTINGS_KEY, settings);
+  }
+}
@@ -0,0 +1,127 @@
+import { I18n } from '../i18n';
+import type { MessageKey } from '../i18n';
+import type { Content, TDocumentDefinitions } from 'pdfmake/interfaces';
+import type { MinutesDocument, MinutesLine, MinutesSection } from '../types/types';
+
+// pdfmake only ships Roboto, which covers Vietnamese; the template font applies to Word only
+const DEFAULT_FONT_SIZE = 11;
+
+export class PdfExporter {
+  static async render(minutes: MinutesDocument): Promise<Blob> {
+    // pdfmake and its embedded fonts are large, so load them only when a PDF is requested
+    const [{ default: pdfMake }, { default: vfs }] = await Promise.all([
+      import('pdfmake/build/pdfmake'),
+      import('pdfmake/build/vfs_fonts')
+    ]);
+    pdfMake.addVirtualFileSystem(vfs);
+
+    return pdfMake.createPdf(this.createDefinition(minutes)).getBlob();
+  }
+
+  static createDefinition(minutes: MinutesDocument): TDocumentDefinitions {
+    const { template } = minutes;
+    const letterhead: Content[] = [
+      ...(template.organization.trim()
+        ? [{ text: template.organization.trim().toUpperCase(), bold: true, alignment: 'center' as const }]
+        : []),
+      ...template.letterhead
+        .split('\n')
+        .filter((line) => line.trim().length > 0)
+        .map((line) => ({ text: line.trim(), alignment: 'center' as const }))
+    ];
+
+    return {
+      info: { title: template.title },
+      pageMargins: [50, 60, 50, 60],
+      defaultStyle: { fontSize: template.fontSize || DEFAULT_FONT_SIZE },
+      styles: {
+        title: { fontSize: 18, bold: true, alignment: 'center', margin: [0, 12, 0, 20] },
+        heading: { fontSize: 14, bold: true, margin: [0, 14, 0, 8] },
+        tableHeader: { bold: true, fillColor: '#f2f2f2' },
+        pageText: { fontSize: 9, color: '#666666', alignment: 'center' }
+      },
+      header: template.headerText
+        ? { text: template.headerText, style: 'pageText', margin: [50, 24, 50, 0] }
+        : undefined,
+      footer: template.footerText
+        ? (currentPage: number, pageCount: number) => ({
+            text: `${template.footerText} — ${currentPage}/${pageCount}`,
+            style: 'pageText',
+            margin: [50, 24, 50, 0]
+          })
+        : undefined,
+      content: [
+        ...letterhead,
+        { text: template.title, style: 'title' },
+        ...minutes.sections.flatMap((section): Content[] => [
+          { text: minutes.headings[section], style: 'heading' },
+          this.renderSection(minutes, section)
+        ])
+      ]
+    };
+  }
+
+  private static renderSection(minutes: MinutesDocument, section: MinutesSection): Content {
+    const label = (key: MessageKey) => I18n.translate(minutes.language, key);
+
+    switch (section) {
+      case 'info':
+        return minutes.info.map(({ label: name, value }) => ({
+          text: [{ text: `${name}: `, bold: true }, value],
+          margin: [0, 0, 0, 4]
+        }));
+      case 'attendance':
+        if (minutes.attendance.length === 0) return { text: label('export.notAvailable') };
+        return this.table(
+          [label('export.number'), label('export.name'), label('export.organization'), label('export.role'), label('export.status')],
+          minutes.attendance.map((entry, index) => [
+            String(index + 1), entry.name, entry.organization, entry.role, entry.status
+          ]),
+          ['auto', '*', '*', 'auto', 'auto']
+        );
+      case 'notes':
+        if (minutes.layout === 'timestamps') {
+          return this.table(
+            [minutes.timeHeading, label('export.content')],
+            minutes.notes
+              .filter((line) => line.text.length > 0)
+              .map((line) => [line.time, this.formatLine(line)]),
+            ['auto', '*']
+          );
+        }
+        return minutes.notes.map((line) =>
+          line.text ? { text: this.formatLine(line), margin: [0, 0, 0, 4] } : { text: ' ', fontSize: 4 }
+        );
+      case 'decisions':
+        return { ol: minutes.decisions };
+      case 'actions':
+        return this.table(
+          [label('export.number'), label('export.content'), label('export.assignee'), label('export.dueDate')],
+          minutes.actions.map((item, index) => [String(index + 1), item.text, item.assignee, item.dueDate]),
+          ['auto', '*', 'auto', 'auto']
+        );
+      case 'questions':
+        return { ol: minutes.questions };
+    }
+  }
+
+  // "Speaker: text"; highlighted lines are bold on yellow like the Word export
+  private static formatLine(line: MinutesLine): Content {
+    const text = line.highlight
+      ? { text: line.text, bold: true, background: '#fff176' }
+      : { text: line.text };
+    return line.speaker ? { text: [{ text: `${line.speaker}: `, bold: true }, text] } : text;
+  }
+
+  private static table(headers: string[], rows: Content[][], widths: Array<'auto' | '*'>): Content {
+    return {
+      table: {
+        headerRows: 1,
+        widths,
+        body: [headers.map((header) => ({ text: header, style: 'tableHeader' })), ...rows]
+      },
+      layout: { hLineColor: () => '#bbbbbb', vLineColor: () => '#bbbbbb' },
+      margin: [0, 0, 0, 8]
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { loadStoredSettings, saveStoredSettings } from './storedSettings';
+import type { PlaybackSettings } from '../types/types';
+
+const SETTINGS_KEY = 'playbackSettings';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+const DEFAULT_SETTINGS: PlaybackSettings = {
+  rate: 1,
+  skipBackSeconds: 5,
+  skipForwardSeconds: 10,
+  autoRewindSeconds: 2
+};
+
+export class PlaybackPreferences {
+  // Neighbouring preset rate, staying at the ends of the range
+  static stepRate(rate: number, direction: 1 | -1): number {
+    const index = PLAYBACK_RATES.findIndex((preset) => preset >= rate);
+    const current = index === -1 ? PLAYBACK_RATES.length - 1 : index;
+    const next = Math.min(PLAYBACK_RATES.length - 1, Math.max(0, current + direction));
+    return PLAYBACK_RATES[next];
+  }
+
+  static loadSettings(): PlaybackSettings {
+    return loadStoredSettings(
+      SETTINGS_KEY,
+      (stored) =>
+        PLAYBACK_RATES.includes(stored.rate ?? NaN) &&
+        [stored.skipBackSeconds, stored.skipForwardSeconds, stored.autoRewindSeconds]
+          .every((seconds) => typeof seconds === 'number' && Number.isFinite(seconds) && seconds >= 0),
+      DEFAULT_SETTINGS
+    );
+  }
+
+  static saveSettings(settings: PlaybackSettings): void {
+    saveStoredSettings(SETTINGS_KEY, settings);
+  }
+}
@@ -0,0 +1,216 @@
+import { MetadataBuilder } from './metadataBuilder';
+import { AudioFormats } from './audioFormats';
+import { FileManagerService } from './fileManager';
+import { Attendees } from './attendees';
+import { I18n } from '../i18n';
+import type {
+  FileSystemDirectoryHandle,
+  LoadedProject,
+  MeetingInfo,
+  MeetingMetadata,
+  MeetingSessionSnapshot,
+  NoteLineMeta,
+  ProjectMetadata,
+  ProjectSummary,
+  TimestampRecord
+} from '../types/types';
+
+const MEETING_INFO_SUFFIX = '_meeting_info.json';
+
+export class ProjectLoader {
+  // Read every file of a project folder picked with the File System Access API
+  static async loadFromDirectory(dirHandle: FileSystemDirectoryHandle): Promise<LoadedProject> {
+    return this.loadFromFiles(await FileManagerService.readFiles(dirHandle), dirHandle);
+  }
+
+  // Rebuild a session from the recording, meeting info and metadata files written on save.
+  // directory is where "Save Changes" writes back; null means download instead.
+  static async loadFromFiles(
+    files: File[],
+    directory: FileSystemDirectoryHandle | null = null
+  ): Promise<LoadedProject> {
+    const audioFile = files.find((file) => AudioFormats.isAudioFileName(file.name));
+    if (!audioFile) {
+      throw new Error(I18n.t('errors.noProjectAudio'));
+    }
+
+    const projectName = AudioFormats.stripExtension(audioFile.name);
+    const infoFile =
+      files.find((file) => file.name === `${projectName}${MEETING_INFO_SUFFIX}`) ??
+      files.find((file) => file.name.endsWith(MEETING_INFO_SUFFIX));
+    const metadataFile = files.find((file) => file.name === 'metadata.json');
+
+    const meetingInfo = infoFile
+      ? this.toMeetingInfo(JSON.parse(await infoFile.text()) as MeetingMetadata)
+      : this.emptyMeetingInfo(projectName);
+
+    // metadata.json only belongs to this project if it points at the same recording
+    const metadata = metadataFile
+      ? (JSON.parse(await metadataFile.text()) as ProjectMetadata)
+      : null;
+    const ownMetadata = metadata && metadata.AudioFileName === audioFile.name ? metadata : null;
+
+    const duration = ownMetadata
+      ? MetadataBuilder.parseTimestamp(ownMetadata.Duration)
+      : await AudioFormats.getDurationMs(audioFile, audioFile.name);
+
+    return {
+      project: { projectName, audioFileName: audioFile.name, duration, directory },
+      snapshot: { meetingInfo, ...this.notesFromMetadata(ownMetadata) },
+      audioBlob: audioFile,
+      hasNotes: ownMetadata !== null
+    };
+  }
+
+  // Every project of the selected folder: one subfolder per meeting, plus older projects saved flat in the root
+  static async scanFolder(fileManager: FileManagerService): Promise<ProjectSummary[]> {
+    const { files, directories } = await fileManager.listEntries();
+
+    const nested = await Promise.all(
+      directories.map(async (dir) => this.listProjects(await FileManagerService.readFiles(dir), dir))
+    );
+    const legacy = await this.listProjects(files, fileManager.getFolderHandle());
+    return [...nested.flat(), ...legacy];
+  }
+
+  // The files of one project in a folder that may hold several
+  static projectFiles(files: File[], projectName: string): File[] {
+    return files.filter(
+      (file) =>
+        file.name === 'metadata.json' ||
+        file.name.startsWith(`${projectName}.`) ||
+        file.name.startsWith(`${projectName}_`)
+    );
+  }
+
+  // Group a folder's files into projects, one per recording
+  static async listProjects(
+    files: File[],
+    directory: FileSystemDirectoryHandle | null
+  ): Promise<ProjectSummary[]> {
+    const audioFiles = files.filter((file) => AudioFormats.isAudioFileName(file.name));
+
+    return Promise.all(
+      audioFiles.map(async (audioFile) => {
+        const projectName = AudioFormats.stripExtension(audioFile.name);
+        const projectFiles = this.projectFiles(files, projectName);
+        const infoFile = projectFiles.find(
+          (file) => file.name === `${projectName}${MEETING_INFO_SUFFIX}`
+        );
+
+        let meetingInfo = this.emptyMeetingInfo(projectName);
+        if (infoFile) {
+          try {
+            meetingInfo = this.toMeetingInfo(JSON.parse(await infoFile.text()));
+          } catch (error) {
+            console.warn(`Unreadable meeting info for ${projectName}:`, error);
+          }
+        }
+
+        return {
+          projectName,
+          title: meetingInfo.title,
+          date: meetingInfo.date,
+          time: meetingInfo.time,
+          host: meetingInfo.host,
+          attendeeCount: Attendees.roster(meetingInfo).length,
+          duration: await this.readDuration(
+            audioFile,
+            projectFiles.find((file) => file.name === 'metadata.json')
+          ),
+          files: projectFiles,
+          directory
+        };
+      })
+    );
+  }
+
+  // Opus/WebM from MediaRecorder has no duration in its header, so the saved Duration comes
+  // first; probing the audio is left for projects without their own metadata.json
+  private static async readDuration(audioFile: File, metadataFile: File | undefined): Promise<number> {
+    if (metadataFile) {
+      try {
+        const metadata = JSON.parse(await metadataFile.text()) as ProjectMetadata;
+        if (metadata.AudioFileName === audioFile.name && metadata.Duration) {
+          return MetadataBuilder.parseTimestamp(metadata.Duration);
+        }
+      } catch (error) {
+        console.warn(`Unreadable metadata for ${audioFile.name}:`, error);
+      }
+    }
+    return AudioFormats.getDurationMs(audioFile, audioFile.name);
+  }
+
+  static toMeetingInfo(json: MeetingMetadata): MeetingInfo {
+    return {
+      title: json.MeetingTitle ?? '',
+      date: json.MeetingDate ?? '',
+      time: json.MeetingTime ?? '',
+      location: json.Location ?? '',
+      host: json.Host ?? '',
+      attendees: json.Attendees ?? '',
+      roster: Attendees.fromMetadata(json.AttendeeRoster),
+      templateId: json.TemplateId
+    };
+  }
+
+  // Each Timestamps entry becomes one note line keyed by its start position
+  private static notesFromMetadata(
+    metadata: ProjectMetadata | null
+  ): Omit<MeetingSessionSnapshot, 'meetingInfo'> {
+    if (!metadata || metadata.Timestamps.length === 0) {
+      return { notes: '', timestamps: [], recordingStartTime: 0, pauses: [], lineMeta: [] };
+    }
+
+    const pauses = (metadata.Pauses ?? []).map((pause) => ({
+      start: Date.parse(pause.Start),
+      end: Date.parse(pause.End)
+    }));
+
+    const entries = [...metadata.Timestamps].sort((a, b) => a.Index - b.Index);
+    const timestamps: Array<[number, number]> = [];
+    const lineMeta: Array<[number, NoteLineMeta]> = [];
+    let position = 0;
+    entries.forEach((entry) => {
+      timestamps.push([position, Date.parse(entry.DateTime)]);
+
+      // Items of timestamped lines are matched back by their DateTime
+      const item = metadata.Items?.find(
+        (candidate) => candidate.DateTime === entry.DateTime && candidate.Text === entry.Text
+      );
+      const meta: NoteLineMeta = {
+        speaker: entry.Speaker,
+        highlight: entry.Highlight || undefined,
+        type: item?.Type,
+        assignee: item?.Assignee,
+        dueDate: item?.DueDate
+      };
+      if (Object.values(meta).some((value) => value !== undefined)) {
+        lineMeta.push([position, meta]);
+      }
+      position += entry.Text.length + 1;
+    });
+
+    return {
+      notes: entries.map((entry) => entry.Text).join('\n'),
+      timestamps,
+      recordingStartTime: metadata.RecordingStartTime
+        ? Date.parse(metadata.RecordingStartTime)
+        : this.deriveRecordingStartTime(entries),
+      pauses,
+      lineMeta
+    };
+  }
+
+  // Older metadata has no RecordingStartTime. Lines typed before recording are
+  // clamped to 00:00:00, so derive the start from a later one.
+  private static deriveRecordingStartTime(entries: TimestampRecord[]): number {
+    const reference =
+      entries.find((entry) => MetadataBuilder.parseTimestamp(entry.StartTime) > 0) ?? entries[0];
+    return Date.parse(reference.DateTime) - MetadataBuilder.parseTimestamp(reference.StartTime);
+  }
+
+  private static emptyMeetingInfo(projectName: string): MeetingInfo {
+    return { title: projectName, date: '', time: '', location: '', host: '', attendees: '' };
+  }
+}
@@ -0,0 +1,130 @@
+import { getDatabase } from './database';
+import { WavUtils } from './wavUtils';
+import { Mp3Converter } from './mp3Converter';
+import { AUDIO_FORMATS, BITRATE_PRESETS } from './audioFormats';
+import type {
+  AudioOutputSettings,
+  MeetingSessionSnapshot,
+  RecordingSession,
+  RecoveredRecording
+} from '../types/types';
+
+export class RecordingRecoveryService {
+  static async startSession(
+    snapshot: MeetingSessionSnapshot,
+    output: AudioOutputSettings
+  ): Promise<string> {
+    const db = await getDatabase();
+    const now = Date.now();
+    const session: RecordingSession = {
+      id: `rec_${now}`,
+      startedAt: now,
+      updatedAt: now,
+      chunkCount: 0,
+      snapshot,
+      output,
+      duration: 0
+    };
+
+    await db.put('recordingSessions', session);
+    return session.id;
+  }
+
+  // Persist one audio slice; sequence comes from the session so order survives reloads
+  static async appendChunk(sessionId: string, blob: Blob, durationMs: number): Promise<void> {
+    const db = await getDatabase();
+    const tx = db.transaction(['recordingSessions', 'recordingChunks'], 'readwrite');
+    const sessions = tx.objectStore('recordingSessions');
+
+    const session = await sessions.get(sessionId);
+    if (!session) {
+      await tx.done;
+      return;
+    }
+
+    await tx.objectStore('recordingChunks').put({
+      sessionId,
+      sequence: session.chunkCount,
+      blob
+    });
+    session.chunkCount += 1;
+    session.duration = durationMs;
+    session.updatedAt = Date.now();
+    await sessions.put(session);
+    await tx.done;
+  }
+
+  static async updateSnapshot(
+    sessionId: string,
+    snapshot: MeetingSessionSnapshot
+  ): Promise<void> {
+    const db = await getDatabase();
+    const tx = db.transaction('recordingSessions', 'readwrite');
+    const session = await tx.store.get(sessionId);
+    if (session) {
+      session.snapshot = snapshot;
+      session.updatedAt = Date.now();
+      await tx.store.put(session);
+    }
+    await tx.done;
+  }
+
+  // Sessions left behind by a crash or reload, newest first
+  static async findUnfinishedSessions(): Promise<RecordingSession[]> {
+    const db = await getDatabase();
+    const sessions = await db.getAll('recordingSessions');
+
+    const empty = sessions.filter((session) => session.chunkCount === 0);
+    await Promise.all(empty.map((session) => this.discardSession(session.id)));
+
+    return sessions
+      .filter((session) => session.chunkCount > 0)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  // Reassemble the persisted slices into a file in the session's output format
+  static async rebuildAudio(
+    session: RecordingSession
+  ): Promise<{ audioBlob: Blob; recording: RecoveredRecording }> {
+    const db = await getDatabase();
+    const chunks = await db.getAllFromIndex('recordingChunks', 'bySession', session.id);
+    chunks.sort((a, b) => a.sequence - b.sequence);
+    const blobs = chunks.map((chunk) => chunk.blob);
+
+    const output = session.output ?? { format: 'wav', quality: 'medium' };
+    const format = AUDIO_FORMATS[output.format];
+
+    // MediaRecorder slices are continuous and simply concatenate
+    if (format.compressedCapture) {
+      return {
+        audioBlob: new Blob(blobs, { type: format.mimeType }),
+        recording: { sessionId: session.id, duration: session.duration ?? 0, format: output.format }
+      };
+    }
+
+    const wav = await WavUtils.concatChunks(blobs);
+    const duration = await WavUtils.getDurationMs(wav);
+    const audioBlob = output.format === 'mp3'
+      ? await Mp3Converter.fromWav(wav, BITRATE_PRESETS[output.quality])
+      : wav;
+
+    return {
+      audioBlob,
+      recording: { sessionId: session.id, duration, format: output.format }
+    };
+  }
+
+  static async discardSession(sessionId: string): Promise<void> {
+    const db = await getDatabase();
+    const tx = db.transaction(['recordingSessions', 'recordingChunks'], 'readwrite');
+    const chunks = tx.objectStore('recordingChunks');
+
+    let cursor = await chunks.index('bySession').openKeyCursor(sessionId);
+    while (cursor) {
+      await chunks.delete(cursor.primaryKey);
+      cursor = await cursor.continue();
+    }
+    await tx.objectStore('recordingSessions').delete(sessionId);
+    await tx.done;
+  }
+}
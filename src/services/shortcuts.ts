@@ -0,0 +1,186 @@
+import { I18n } from '../i18n';
+import { loadStoredSettings, saveStoredSettings } from './storedSettings';
+import type { MessageKey } from '../i18n';
+import type { ShortcutAction, ShortcutBindings } from '../types/types';
+
+const BINDINGS_KEY = 'shortcutBindings';
+
+interface ShortcutInfo {
+  label: MessageKey;
+  // Empty when the action has no key until the user assigns one
+  defaultKeys: string;
+}
+
+// Alt+letter keeps clear of browser shortcuts; app keys avoid the note editor's own Alt keys
+export const SHORTCUT_ACTIONS: Record<ShortcutAction, ShortcutInfo> = {
+  commandPalette: { label: 'shortcuts.commandPalette', defaultKeys: 'Ctrl+K' },
+  shortcutSettings: { label: 'shortcuts.settings', defaultKeys: '' },
+  selectFolder: { label: 'recording.selectFolder', defaultKeys: 'Alt+O' },
+  openProject: { label: 'recording.openProject', defaultKeys: '' },
+  record: { label: 'recording.record', defaultKeys: 'Alt+R' },
+  stop: { label: 'recording.stop', defaultKeys: 'Alt+S' },
+  pauseResume: { label: 'shortcuts.pauseResume', defaultKeys: 'Alt+P' },
+  flagMoment: { label: 'recording.flagMoment', defaultKeys: 'Alt+M' },
+  saveChanges: { label: 'recording.saveChanges', defaultKeys: 'Ctrl+S' },
+  toggleTimestamps: { label: 'shortcuts.toggleTimestamps', defaultKeys: 'Alt+T' },
+  followPlayback: { label: 'notes.followPlayback', defaultKeys: 'Alt+G' },
+  findInNotes: { label: 'find.title', defaultKeys: 'Ctrl+F' },
+  togglePlay: { label: 'player.togglePlay', defaultKeys: 'Alt+K' },
+  skipBack: { label: 'player.skipBackward', defaultKeys: 'Alt+J' },
+  skipForward: { label: 'player.skipForward', defaultKeys: 'Alt+L' },
+  slower: { label: 'player.slower', defaultKeys: 'Alt+-' },
+  faster: { label: 'player.faster', defaultKeys: 'Alt+=' },
+  loopStart: { label: 'player.loopStart', defaultKeys: 'Alt+[' },
+  loopEnd: { label: 'player.loopEnd', defaultKeys: 'Alt+]' },
+  clearLoop: { label: 'player.clearLoop', defaultKeys: 'Alt+\\' }
+};
+
+// Keys NotesEditor.handleKeyDown handles inside a line, whatever other modifiers are held:
+// Enter and Backspace, and Alt with a digit or H/A/D/Q
+const EDITOR_KEYS = ['Enter', 'Backspace'];
+const EDITOR_ALT_KEYS = ['H', 'A', 'D', 'Q', ...Array.from({ length: 10 }, (_, i) => String(i))];
+
+const CODE_NAMES: Record<string, string> = {
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backquote: '`'
+};
+
+const MODIFIER_CODES = /^(Control|Shift|Alt|Meta|OS)(Left|Right)?$/;
+
+export class Shortcuts {
+  private static bindings: ShortcutBindings = Shortcuts.loadBindings();
+  private static handlers = new Map<ShortcutAction, () => void>();
+
+  // "Ctrl+Alt+Shift+Meta+Key" from the physical key, so layouts and Alt characters don't matter
+  static fromEvent(e: KeyboardEvent): string | null {
+    if (MODIFIER_CODES.test(e.code)) return null;
+
+    const key = e.code.startsWith('Key')
+      ? e.code.slice(3)
+      : e.code.startsWith('Digit')
+        ? e.code.slice(5)
+        : CODE_NAMES[e.code] ?? e.code;
+
+    return [e.ctrlKey && 'Ctrl', e.altKey && 'Alt', e.shiftKey && 'Shift', e.metaKey && 'Meta', key]
+      .filter(Boolean)
+      .join('+');
+  }
+
+  static getBindings(): ShortcutBindings {
+    return { ...this.bindings };
+  }
+
+  static getKeys(action: ShortcutAction): string {
+    return this.bindings[action];
+  }
+
+  // Why keys cannot be bound to action, or null when they can
+  static findConflict(action: ShortcutAction, keys: string): string | null {
+    if (!keys) return null;
+
+    const parts = keys.split('+');
+    const base = parts[parts.length - 1];
+    if (EDITOR_KEYS.includes(base) || (parts.includes('Alt') && EDITOR_ALT_KEYS.includes(base))) {
+      return I18n.t('shortcuts.conflictEditor');
+    }
+    // Plain keys would fire while typing notes
+    if (parts.length === 1 && !/^F\d{1,2}$/.test(base)) {
+      return I18n.t('shortcuts.needsModifier');
+    }
+
+    const other = (Object.keys(this.bindings) as ShortcutAction[]).find(
+      (candidate) => candidate !== action && this.bindings[candidate] === keys
+    );
+    return other
+      ? I18n.t('shortcuts.conflictAction', { action: I18n.t(SHORTCUT_ACTIONS[other].label) })
+      : null;
+  }
+
+  static setKeys(action: ShortcutAction, keys: string): void {
+    const conflict = this.findConflict(action, keys);
+    if (conflict) {
+      throw new Error(conflict);
+    }
+
+    this.bindings = { ...this.bindings, [action]: keys };
+    this.saveBindings();
+  }
+
+  static resetAll(): void {
+    this.bindings = this.defaultBindings();
+    this.saveBindings();
+  }
+
+  // Components offer their actions only while they are usable
+  static register(action: ShortcutAction, handler: () => void): () => void {
+    this.handlers.set(action, handler);
+    return () => {
+      if (this.handlers.get(action) === handler) {
+        this.handlers.delete(action);
+      }
+    };
+  }
+
+  static isAvailable(action: ShortcutAction): boolean {
+    return this.handlers.has(action);
+  }
+
+  static run(action: ShortcutAction): boolean {
+    const handler = this.handlers.get(action);
+    handler?.();
+    return handler !== undefined;
+  }
+
+  // Global keydown listener; runs in textareas too, which is why editor keys are refused
+  static handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.defaultPrevented || e.repeat) return;
+
+    const keys = Shortcuts.fromEvent(e);
+    if (!keys) return;
+
+    const action = (Object.keys(Shortcuts.bindings) as ShortcutAction[]).find(
+      (candidate) => Shortcuts.bindings[candidate] === keys
+    );
+    if (action && Shortcuts.run(action)) {
+      e.preventDefault();
+    }
+  };
+
+  private static defaultBindings(): ShortcutBindings {
+    return Object.fromEntries(
+      (Object.keys(SHORTCUT_ACTIONS) as ShortcutAction[]).map((action) => [
+        action,
+        SHORTCUT_ACTIONS[action].defaultKeys
+      ])
+    ) as ShortcutBindings;
+  }
+
+  // Stored keys override the defaults; actions added later keep their default
+  private static loadBindings(): ShortcutBindings {
+    const bindings = this.defaultBindings();
+    const stored = loadStoredSettings<Partial<ShortcutBindings>>(
+      BINDINGS_KEY,
+      (stored) => typeof stored === 'object',
+      {}
+    );
+    (Object.keys(bindings) as ShortcutAction[]).forEach((action) => {
+      const keys = stored[action];
+      if (typeof keys === 'string') bindings[action] = keys;
+    });
+    return bindings;
+  }
+
+  private static saveBindings(): void {
+    saveStoredSettings(BINDINGS_KEY, this.bindings);
+    window.dispatchEvent(new CustomEvent('shortcuts-changed'));
+  }
+}
@@ -0,0 +1,21 @@
+// Settings kept as JSON in localStorage; a missing, corrupt or invalid value falls back to the defaults.
+// isValid sees the parsed value before it is trusted, so any field may be missing.
+export function loadStoredSettings<T>(
+  key: string,
+  isValid: (stored: Partial<T>) => boolean,
+  defaults: T
+): T {
+  try {
+    const stored: Partial<T> | null = JSON.parse(localStorage.getItem(key) ?? 'null');
+    if (stored && isValid(stored)) {
+      return stored as T;
+    }
+  } catch {
+    // Ignore corrupt settings and fall back to defaults
+  }
+  return defaults;
+}
+
+export function saveStoredSettings<T>(key: string, settings: T): void {
+  localStorage.setItem(key, JSON.stringify(settings));
+}
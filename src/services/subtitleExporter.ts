@@ -0,0 +1,85 @@
+import { MetadataBuilder } from './metadataBuilder';
+import { I18n } from '../i18n';
+import type { SubtitleFormat, TimestampRecord, WordExportOptions } from '../types/types';
+
+// Lines noted in the same instant still get a readable cue
+const MIN_CUE_MS = 1000;
+
+interface SubtitleCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+  highlight: boolean;
+}
+
+export class SubtitleExporter {
+  // SRT or WebVTT track of the timestamped note lines, aligned to the recording
+  static render(
+    format: SubtitleFormat,
+    notesText: string,
+    options: WordExportOptions = {}
+  ): string {
+    const recordingStartTime = options.recordingStartTime ?? 0;
+    if (recordingStartTime <= 0) {
+      throw new Error(I18n.t('errors.noRecordingForSubtitles'));
+    }
+
+    const timestamps = MetadataBuilder.extractTimestamps(
+      notesText,
+      options.timestampMap ?? new Map(),
+      options.duration ?? Infinity,
+      recordingStartTime,
+      options.pauses ?? [],
+      options.lineMeta ?? new Map()
+    );
+    const cues = this.toCues(timestamps);
+
+    return format === 'srt' ? this.toSrt(cues) : this.toVtt(cues);
+  }
+
+  private static toCues(timestamps: TimestampRecord[]): SubtitleCue[] {
+    return timestamps
+      .filter((record) => record.Text.length > 0)
+      .map((record) => {
+        const startMs = MetadataBuilder.parseTimestamp(record.StartTime);
+        return {
+          startMs,
+          endMs: Math.max(MetadataBuilder.parseTimestamp(record.EndTime), startMs + MIN_CUE_MS),
+          // "Speaker: text" like the minutes
+          text: record.Speaker ? `${record.Speaker}: ${record.Text}` : record.Text,
+          highlight: record.Highlight
+        };
+      });
+  }
+
+  // Both formats understand <b>
+  private static wrapHighlight(text: string, highlight: boolean): string {
+    return highlight ? `<b>${text}</b>` : text;
+  }
+
+  private static toSrt(cues: SubtitleCue[]): string {
+    return cues
+      .map((cue, index) =>
+        `${index + 1}\n${this.formatTime(cue.startMs, ',')} --> ${this.formatTime(cue.endMs, ',')}\n${this.wrapHighlight(cue.text, cue.highlight)}\n`
+      )
+      .join('\n');
+  }
+
+  private static toVtt(cues: SubtitleCue[]): string {
+    const body = cues.map((cue, index) =>
+      `${index + 1}\n${this.formatTime(cue.startMs, '.')} --> ${this.formatTime(cue.endMs, '.')}\n${this.wrapHighlight(this.escapeVtt(cue.text), cue.highlight)}\n`
+    );
+    return ['WEBVTT\n', ...body].join('\n');
+  }
+
+  // WebVTT cue text is markup
+  private static escapeVtt(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  // HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+  private static formatTime(ms: number, separator: ',' | '.'): string {
+    const rounded = Math.round(ms);
+    return `${MetadataBuilder.formatDuration(rounded)}${separator}${(rounded % 1000).toString().padStart(3, '0')}`;
+  }
+}
@@ -0,0 +1,84 @@
+import { getDatabase } from './database';
+import { I18n } from '../i18n';
+import type { MessageKey } from '../i18n';
+import type { AppLanguage, MinutesSection, WordTemplate } from '../types/types';
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+export const MINUTES_SECTIONS: Record<MinutesSection, MessageKey> = {
+  info: 'sections.info',
+  attendance: 'sections.attendance',
+  notes: 'sections.notes',
+  decisions: 'sections.decisions',
+  actions: 'sections.actions',
+  questions: 'sections.questions'
+};
+
+export class TemplateStore {
+  static createId(): string {
+    return `template_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  // Built-in layout, matching the original hard-coded minutes, labelled in the given language
+  static defaultTemplate(language: AppLanguage = I18n.loadExportLanguage()): WordTemplate {
+    const label = (key: MessageKey) => I18n.translate(language, key);
+    return {
+      id: DEFAULT_TEMPLATE_ID,
+      name: label('templates.defaultName'),
+      organization: '',
+      letterhead: '',
+      title: label('export.title'),
+      headerText: '',
+      footerText: '',
+      // Empty font settings keep Word's defaults
+      fontFamily: '',
+      fontSize: 0,
+      labels: {
+        infoHeading: label('export.infoHeading'),
+        title: label('export.titleLabel'),
+        date: label('export.date'),
+        time: label('export.time'),
+        location: label('export.location'),
+        host: label('export.host'),
+        attendanceHeading: label('export.attendanceHeading'),
+        notesHeading: label('export.notesHeading'),
+        decisionsHeading: label('export.decisionsHeading'),
+        actionsHeading: label('export.actionsHeading'),
+        questionsHeading: label('export.questionsHeading')
+      },
+      sections: ['info', 'attendance', 'notes', 'decisions', 'actions', 'questions'],
+      updatedAt: 0
+    };
+  }
+
+  // Built-in template first, then stored ones by name
+  static async list(language?: AppLanguage): Promise<WordTemplate[]> {
+    const db = await getDatabase();
+    const templates = await db.getAll('templates');
+    return [this.defaultTemplate(language), ...templates.sort((a, b) => a.name.localeCompare(b.name))];
+  }
+
+  // Unknown or deleted templates fall back to the built-in one
+  static async get(id: string | undefined, language?: AppLanguage): Promise<WordTemplate> {
+    if (!id || id === DEFAULT_TEMPLATE_ID) return this.defaultTemplate(language);
+
+    const db = await getDatabase();
+    return (await db.get('templates', id)) ?? this.defaultTemplate(language);
+  }
+
+  static async save(template: WordTemplate): Promise<WordTemplate> {
+    if (template.id === DEFAULT_TEMPLATE_ID) {
+      throw new Error(I18n.t('errors.defaultTemplateReadOnly'));
+    }
+
+    const db = await getDatabase();
+    const saved = { ...template, updatedAt: Date.now() };
+    await db.put('templates', saved);
+    return saved;
+  }
+
+  static async delete(id: string): Promise<void> {
+    const db = await getDatabase();
+    await db.delete('templates', id);
+  }
+}
@@ -0,0 +1,81 @@
+import { I18n } from '../i18n';
+
+export const WAV_HEADER_SIZE = 44;
+
+export interface WavFormat {
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+}
+
+export class WavUtils {
+  // Merge standalone WAV slices (as produced by RecordRTC timeSlice) into one file
+  static async concatChunks(chunks: Blob[]): Promise<Blob> {
+    if (chunks.length === 0) {
+      throw new Error(I18n.t('errors.noAudioToMerge'));
+    }
+
+    const { channels, sampleRate, bitsPerSample } = await this.readFormat(chunks[0]);
+
+    const pcmParts = chunks.map((chunk) => chunk.slice(WAV_HEADER_SIZE));
+    const dataLength = pcmParts.reduce((total, part) => total + part.size, 0);
+
+    return new Blob(
+      [this.createHeader(dataLength, sampleRate, channels, bitsPerSample), ...pcmParts],
+      { type: 'audio/wav' }
+    );
+  }
+
+  static async readFormat(wav: Blob): Promise<WavFormat> {
+    const header = new DataView(await wav.slice(0, WAV_HEADER_SIZE).arrayBuffer());
+    return {
+      channels: header.getUint16(22, true),
+      sampleRate: header.getUint32(24, true),
+      bitsPerSample: header.getUint16(34, true)
+    };
+  }
+
+  // Duration derived from the header's byte rate and the actual PCM payload size
+  static async getDurationMs(wav: Blob): Promise<number> {
+    if (wav.size <= WAV_HEADER_SIZE) return 0;
+
+    const header = new DataView(await wav.slice(0, WAV_HEADER_SIZE).arrayBuffer());
+    const byteRate = header.getUint32(28, true);
+    if (!byteRate) return 0;
+
+    return Math.round(((wav.size - WAV_HEADER_SIZE) / byteRate) * 1000);
+  }
+
+  static createHeader(
+    dataLength: number,
+    sampleRate: number,
+    channels: number,
+    bitsPerSample: number
+  ): ArrayBuffer {
+    const buffer = new ArrayBuffer(WAV_HEADER_SIZE);
+    const view = new DataView(buffer);
+    const blockAlign = channels * (bitsPerSample / 8);
+
+    this.writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataLength, true);
+    this.writeString(view, 8, 'WAVE');
+    this.writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitsPerSample, true);
+    this.writeString(view, 36, 'data');
+    view.setUint32(40, dataLength, true);
+
+    return buffer;
+  }
+
+  private static writeString(view: DataView, offset: number, text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  }
+}
@@ -1,93 +1,123 @@
-import { Document, Paragraph, TextRun, HeadingLevel, AlignmentType } from 'docx';
+import {
+  Document,
+  Paragraph,
+  TextRun,
+  HeadingLevel,
+  AlignmentType,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+  Header,
+  Footer,
+  PageNumber,
+  PatchType,
+  patchDocument
+} from 'docx';
 import { saveAs } from 'file-saver';
-import type { MeetingInfo } from '../types/types';
+import { MinutesBuilder } from './minutesBuilder';
+import { loadStoredSettings, saveStoredSettings } from './storedSettings';
+import { I18n } from '../i18n';
+import type { MessageKey } from '../i18n';
+import type {
+  MeetingInfo,
+  MinutesDocument,
+  MinutesLine,
+  MinutesSection,
+  WordExportOptions,
+  WordExportSettings,
+  WordTemplate
+} from '../types/types';
+
+const SETTINGS_KEY = 'wordExportSettings';
+
+// Names usable as {{placeholder}} in a user-supplied .docx template
+export const TEMPLATE_PLACEHOLDERS = [
+  'title',
+  'date',
+  'time',
+  'location',
+  'host',
+  'attendees',
+  'info',
+  'attendance',
+  'notes',
+  'decisions',
+  'actions',
+  'questions'
+];
+
+const DEFAULT_SETTINGS: WordExportSettings = { layout: 'text', timeFormat: 'relative' };
+
+// Item sections get a little more room above their heading
+const ITEM_SECTIONS: MinutesSection[] = ['decisions', 'actions', 'questions'];
 
 export class WordExporter {
   // Create Word blob without downloading
   static async createWordBlob(
     meetingInfo: MeetingInfo,
-    notesText: string
+    notesText: string,
+    options: WordExportOptions = {}
   ): Promise<Blob> {
-    // Text is already clean (no timestamps embedded)
-    const paragraphs = this.parseTextToParagraphs(notesText);
-    
+    const minutes = await MinutesBuilder.build(meetingInfo, notesText, options);
+    const { template } = minutes;
+    const blocks = this.createSectionBlocks(minutes);
+
+    if (template.docxFile) {
+      return this.fillDocxTemplate(template.docxFile, meetingInfo, blocks);
+    }
+
+    const body = minutes.sections.flatMap((section) => [
+      new Paragraph({
+        text: minutes.headings[section],
+        heading: HeadingLevel.HEADING_2,
+        spacing: { before: ITEM_SECTIONS.includes(section) ? 300 : 200, after: 200 }
+      }),
+      ...blocks[section]
+    ]);
+
     // Create document
     const doc = new Document({
+      styles: this.createStyles(template),
       sections: [
         {
           properties: {},
+          headers: template.headerText
+            ? {
+                default: new Header({
+                  children: [
+                    new Paragraph({ text: template.headerText, alignment: AlignmentType.CENTER })
+                  ]
+                })
+              }
+            : undefined,
+          footers: template.footerText
+            ? {
+                default: new Footer({
+                  children: [
+                    new Paragraph({
+                      alignment: AlignmentType.CENTER,
+                      children: [
+                        new TextRun(`${template.footerText} — `),
+                        new TextRun({ children: [PageNumber.CURRENT, '/', PageNumber.TOTAL_PAGES] })
+                      ]
+                    })
+                  ]
+                })
+              }
+            : undefined,
           children: [
+            ...this.createLetterhead(template),
+
             // Title
             new Paragraph({
-              text: 'BÁO CÁO CUỘC HỌP',
+              text: template.title,
               heading: HeadingLevel.HEADING_1,
               alignment: AlignmentType.CENTER,
               spacing: { after: 400 }
             }),
-            
-            // Meeting information
-            new Paragraph({
-              text: 'THÔNG TIN CUỘC HỌP',
-              heading: HeadingLevel.HEADING_2,
-              spacing: { before: 200, after: 200 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'Tiêu đề: ', bold: true }),
-                new TextRun({ text: meetingInfo.title })
-              ],
-              spacing: { after: 100 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'Ngày: ', bold: true }),
-                new TextRun({ text: meetingInfo.date })
-              ],
-              spacing: { after: 100 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'Giờ: ', bold: true }),
-                new TextRun({ text: meetingInfo.time })
-              ],
-              spacing: { after: 100 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'Địa điểm: ', bold: true }),
-                new TextRun({ text: meetingInfo.location || 'N/A' })
-              ],
-              spacing: { after: 100 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'Chủ trì: ', bold: true }),
-                new TextRun({ text: meetingInfo.host || 'N/A' })
-              ],
-              spacing: { after: 100 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({ text: 'Thành phần tham dự: ', bold: true }),
-                new TextRun({ text: meetingInfo.attendees || 'N/A' })
-              ],
-              spacing: { after: 300 }
-            }),
-            
-            // Notes content
-            new Paragraph({
-              text: 'NỘI DUNG CUỘC HỌP',
-              heading: HeadingLevel.HEADING_2,
-              spacing: { before: 200, after: 200 }
-            }),
-            
-            ...paragraphs
+
+            ...body
           ]
         }
       ]
@@ -98,42 +128,270 @@ export class WordExporter {
     return await Packer.toBlob(doc);
   }
 
+  // Content of each minutes section, without its heading
+  private static createSectionBlocks(
+    minutes: MinutesDocument
+  ): Record<MinutesSection, Array<Paragraph | Table>> {
+    return {
+      info: this.createInfoFields(minutes),
+      attendance: this.createAttendance(minutes),
+      // Text is already clean (no timestamps embedded); the timestamps layout adds them back
+      notes: minutes.layout === 'timestamps'
+        ? this.createTimestampTable(minutes)
+        : this.parseTextToParagraphs(minutes.notes),
+      decisions: this.createNumberedList(minutes.decisions),
+      actions: this.createActionTable(minutes),
+      questions: this.createNumberedList(minutes.questions)
+    };
+  }
+
+  private static createInfoFields(minutes: MinutesDocument): Paragraph[] {
+    return minutes.info.map(
+      ({ label, value }) =>
+        new Paragraph({
+          children: [
+            new TextRun({ text: `${label}: `, bold: true }),
+            new TextRun({ text: value })
+          ],
+          spacing: { after: 100 }
+        })
+    );
+  }
+
+  // Organization name and letterhead lines above the title
+  private static createLetterhead(template: WordTemplate): Paragraph[] {
+    const lines = template.letterhead.split('\n').filter((line) => line.trim().length > 0);
+    const paragraphs: Paragraph[] = [];
+
+    if (template.organization.trim()) {
+      paragraphs.push(
+        new Paragraph({
+          children: [new TextRun({ text: template.organization.trim().toUpperCase(), bold: true })],
+          alignment: AlignmentType.CENTER
+        })
+      );
+    }
+    lines.forEach((line) =>
+      paragraphs.push(new Paragraph({ text: line.trim(), alignment: AlignmentType.CENTER }))
+    );
+    if (paragraphs.length > 0) {
+      paragraphs.push(new Paragraph({ text: '', spacing: { after: 200 } }));
+    }
+    return paragraphs;
+  }
+
+  // Empty font settings keep Word's defaults
+  private static createStyles(template: WordTemplate) {
+    if (!template.fontFamily && !template.fontSize) return undefined;
+
+    return {
+      default: {
+        document: {
+          run: {
+            font: template.fontFamily || undefined,
+            // docx sizes are in half-points
+            size: template.fontSize ? template.fontSize * 2 : undefined
+          }
+        }
+      }
+    };
+  }
+
+  // Fill a user-supplied .docx: {{title}}-style fields inline, section placeholders as blocks
+  private static async fillDocxTemplate(
+    file: Blob,
+    meetingInfo: MeetingInfo,
+    blocks: Record<MinutesSection, Array<Paragraph | Table>>
+  ): Promise<Blob> {
+    const text = (value: string) => ({ type: PatchType.PARAGRAPH, children: [new TextRun(value)] });
+    const block = (children: Array<Paragraph | Table>) => ({
+      type: PatchType.DOCUMENT,
+      children: children.length > 0 ? children : [new Paragraph({ text: '' })]
+    });
+
+    return patchDocument({
+      outputType: 'blob',
+      data: file,
+      keepOriginalStyles: true,
+      patches: {
+        title: text(meetingInfo.title),
+        date: text(meetingInfo.date),
+        time: text(meetingInfo.time),
+        location: text(meetingInfo.location),
+        host: text(meetingInfo.host),
+        attendees: text(meetingInfo.attendees),
+        info: block(blocks.info),
+        attendance: block(blocks.attendance),
+        notes: block(blocks.notes),
+        decisions: block(blocks.decisions),
+        actions: block(blocks.actions),
+        questions: block(blocks.questions)
+      }
+    });
+  }
+
   // Export with auto-download (for fallback browsers)
   static async exportToWord(
     meetingInfo: MeetingInfo,
     notesText: string,
-    fileName: string
+    fileName: string,
+    options: WordExportOptions = {}
   ): Promise<void> {
-    const blob = await this.createWordBlob(meetingInfo, notesText);
+    const blob = await this.createWordBlob(meetingInfo, notesText, options);
     saveAs(blob, fileName);
   }
   
-  private static parseTextToParagraphs(text: string): Paragraph[] {
-    const paragraphs: Paragraph[] = [];
-    
-    // Split by newlines
-    const lines = text.split('\n');
-    
-    lines.forEach((line) => {
-      const trimmed = line.trim();
-      if (trimmed) {
-        paragraphs.push(
-          new Paragraph({
-            text: trimmed,
+  // Attendance table with role and status per person, or N/A for an empty roster
+  private static createAttendance(minutes: MinutesDocument): Array<Paragraph | Table> {
+    const label = (key: MessageKey) => I18n.translate(minutes.language, key);
+    if (minutes.attendance.length === 0) {
+      return [new Paragraph({ text: label('export.notAvailable'), spacing: { after: 300 } })];
+    }
+
+    return [
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: [
+          new TableRow({
+            tableHeader: true,
+            children: (
+              ['export.number', 'export.name', 'export.organization', 'export.role', 'export.status'] as const
+            ).map((key) => this.tableCell(label(key), true))
+          }),
+          ...minutes.attendance.map(
+            (entry, index) =>
+              new TableRow({
+                children: [
+                  this.tableCell(String(index + 1)),
+                  this.tableCell(entry.name),
+                  this.tableCell(entry.organization),
+                  this.tableCell(entry.role),
+                  this.tableCell(entry.status)
+                ]
+              })
+          )
+        ]
+      }),
+      new Paragraph({ text: '', spacing: { after: 300 } })
+    ];
+  }
+
+  static loadSettings(): WordExportSettings {
+    return loadStoredSettings(
+      SETTINGS_KEY,
+      ({ layout, timeFormat }) =>
+        (layout === 'text' || layout === 'timestamps') &&
+        (timeFormat === 'relative' || timeFormat === 'absolute'),
+      DEFAULT_SETTINGS
+    );
+  }
+
+  static saveSettings(settings: WordExportSettings): void {
+    saveStoredSettings(SETTINGS_KEY, settings);
+  }
+
+  // Two-column table: time of the line (blank when it has none) and its text
+  private static createTimestampTable(minutes: MinutesDocument): Array<Paragraph | Table> {
+    const rows = minutes.notes
+      .filter((line) => line.text.length > 0)
+      .map(
+        (line) =>
+          new TableRow({
+            children: [
+              this.tableCell(line.time),
+              new TableCell({
+                children: [new Paragraph({ children: this.createLineRuns(line) })]
+              })
+            ]
+          })
+      );
+
+    if (rows.length === 0) return [];
+
+    return [
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        columnWidths: [1800, 7200],
+        rows: [
+          new TableRow({
+            tableHeader: true,
+            children: [
+              this.tableCell(minutes.timeHeading, true),
+              this.tableCell(I18n.translate(minutes.language, 'export.content'), true)
+            ]
+          }),
+          ...rows
+        ]
+      })
+    ];
+  }
+
+  private static createNumberedList(items: string[]): Paragraph[] {
+    return items.map(
+      (item, index) =>
+        new Paragraph({ text: `${index + 1}. ${item}`, spacing: { after: 100 } })
+    );
+  }
+
+  private static createActionTable(minutes: MinutesDocument): Table[] {
+    if (minutes.actions.length === 0) return [];
+
+    return [
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: [
+          new TableRow({
+            tableHeader: true,
+            children: (
+              ['export.number', 'export.content', 'export.assignee', 'export.dueDate'] as const
+            ).map((key) => this.tableCell(I18n.translate(minutes.language, key), true))
+          }),
+          ...minutes.actions.map(
+            (item, index) =>
+              new TableRow({
+                children: [
+                  this.tableCell(String(index + 1)),
+                  this.tableCell(item.text),
+                  this.tableCell(item.assignee),
+                  this.tableCell(item.dueDate)
+                ]
+              })
+          )
+        ]
+      })
+    ];
+  }
+
+  // "Speaker: text"; highlighted lines are bold on a yellow background
+  private static createLineRuns(line: MinutesLine): TextRun[] {
+    const emphasis = line.highlight ? { bold: true, highlight: 'yellow' } : {};
+    const runs: TextRun[] = [];
+
+    if (line.speaker) {
+      runs.push(new TextRun({ text: `${line.speaker}: `, bold: true }));
+    }
+    runs.push(new TextRun({ text: line.text, ...emphasis }));
+    return runs;
+  }
+
+  private static tableCell(text: string, bold = false): TableCell {
+    return new TableCell({
+      children: [new Paragraph({ children: [new TextRun({ text, bold })] })]
+    });
+  }
+
+  private static parseTextToParagraphs(lines: MinutesLine[]): Paragraph[] {
+    return lines.map((line) =>
+      line.text
+        ? new Paragraph({
+            children: this.createLineRuns(line),
             spacing: { after: 100 }
           })
-        );
-      } else {
-        // Empty line for spacing
-        paragraphs.push(
+        : // Empty line for spacing
           new Paragraph({
             text: '',
             spacing: { after: 50 }
           })
-        );
-      }
-    });
-    
-    return paragraphs;
+    );
   }
 }
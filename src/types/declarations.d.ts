@@ -6,8 +6,11 @@ declare module 'recordrtc' {
     constructor(stream: MediaStream, options: RecordRTCOptions);
     startRecording(): void;
     stopRecording(callback: () => void): void;
+    pauseRecording(): void;
+    resumeRecording(): void;
     getBlob(): Blob;
     static StereoAudioRecorder: any;
+    static MediaStreamRecorder: any;
   }
 
   interface RecordRTCOptions {
@@ -16,7 +19,10 @@ declare module 'recordrtc' {
     recorderType?: any;
     numberOfAudioChannels?: number;
     desiredSampRate?: number;
+    audioBitsPerSecond?: number;
     disableLogs?: boolean;
+    timeSlice?: number;
+    ondataavailable?: (blob: Blob) => void;
   }
 }
 
@@ -61,8 +67,27 @@ declare module 'docx' {
   export class TextRun {
     constructor(options: any);
   }
+  export class Table {
+    constructor(options: any);
+  }
+  export class TableRow {
+    constructor(options: any);
+  }
+  export class TableCell {
+    constructor(options: any);
+  }
+  export class Header {
+    constructor(options: any);
+  }
+  export class Footer {
+    constructor(options: any);
+  }
   export const HeadingLevel: any;
+  export const PageNumber: any;
+  export const PatchType: any;
+  export function patchDocument(options: any): Promise<any>;
   export const AlignmentType: any;
+  export const WidthType: any;
   export class Packer {
     static toBlob(doc: Document): Promise<Blob>;
   }
@@ -1,12 +1,29 @@
 // TypeScript interfaces and types for the application
 
+export type AppLanguage = 'vi' | 'en';
+
 export interface MeetingInfo {
   title: string;
   date: string;
   time: string;
   location: string;
   host: string;
+  // Comma-separated names, kept in sync with roster for older readers
   attendees: string;
+  roster?: RosterEntry[];
+  // Word minutes template; the built-in layout when unset
+  templateId?: string;
+}
+
+export type AttendeeRole = 'chair' | 'secretary' | 'member' | 'guest';
+
+export type AttendanceStatus = 'present' | 'absent' | 'excused';
+
+export interface RosterEntry {
+  name: string;
+  organization: string;
+  role: AttendeeRole;
+  status: AttendanceStatus;
 }
 
 export interface TranscriptionSegment {
@@ -33,15 +50,399 @@ export interface MeetingMetadata {
   Location: string;
   Host: string;
   Attendees: string;
+  AttendeeRoster?: Array<{
+    Name: string;
+    Organization: string;
+    Role: AttendeeRole;
+    Status: AttendanceStatus;
+  }>;
+  TemplateId?: string;
   CreatedAt: string;
 }
 
+// A timestamped line of the notes, placed on the recorded audio timeline
+export interface NoteLine {
+  lineIndex: number;
+  // Character position of the line start (key in timestampMap)
+  position: number;
+  text: string;
+  datetimeMs: number;
+  audioOffsetMs: number;
+  speaker?: string;
+  highlight?: boolean;
+}
+
+export type NoteLineType = 'action' | 'decision' | 'question';
+
+// Per-line annotations, keyed like timestampMap by the line's start position
+export interface NoteLineMeta {
+  speaker?: string;
+  // Plain note when unset
+  type?: NoteLineType;
+  // Action items only
+  assignee?: string;
+  dueDate?: string;
+  highlight?: boolean;
+}
+
+export type ShortcutAction =
+  | 'commandPalette'
+  | 'shortcutSettings'
+  | 'selectFolder'
+  | 'openProject'
+  | 'record'
+  | 'stop'
+  | 'pauseResume'
+  | 'flagMoment'
+  | 'saveChanges'
+  | 'toggleTimestamps'
+  | 'followPlayback'
+  | 'findInNotes'
+  | 'togglePlay'
+  | 'skipBack'
+  | 'skipForward'
+  | 'slower'
+  | 'faster'
+  | 'loopStart'
+  | 'loopEnd'
+  | 'clearLoop';
+
+// Key combination per action, e.g. "Ctrl+K"; empty when unbound
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export interface PlaybackSettings {
+  // 0.5 to 2, pitch preserved
+  rate: number;
+  skipBackSeconds: number;
+  skipForwardSeconds: number;
+  // Jumped back when playback resumes, to catch the last words again; 0 disables it
+  autoRewindSeconds: number;
+}
+
+// A–B loop in seconds; end stays null until B is set
+export interface PlaybackLoop {
+  start: number;
+  end: number | null;
+}
+
+export interface NoteTimingSettings {
+  // Subtracted when a line is stamped, since notes trail what was said
+  lagSeconds: number;
+  // Step of the per-line -/+ buttons
+  nudgeSeconds: number;
+}
+
+export interface NoteSearchOptions {
+  // Treat the query as a regular expression instead of plain text
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+// One occurrence in the notes; start and end are character offsets within the line
+export interface NoteMatch {
+  line: number;
+  start: number;
+  end: number;
+}
+
+// Action item, decision or open question in metadata.json's Items array
+export interface NoteItemRecord {
+  Index: number;
+  Type: NoteLineType;
+  Text: string;
+  Assignee?: string;
+  DueDate?: string;
+  Speaker?: string;
+  DateTime?: string;
+  StartTime?: string;
+}
+
+// One entry of metadata.json's Timestamps array
+export interface TimestampRecord {
+  Index: number;
+  Text: string;
+  DateTime: string;
+  StartTime: string;
+  EndTime: string;
+  Highlight: boolean;
+  Speaker?: string;
+}
+
+// Content of metadata.json
+export interface ProjectMetadata {
+  ProjectName: string;
+  Model: string;
+  Language: string;
+  OriginalFileName: string;
+  AudioFileName: string;
+  Duration: string;
+  RecordingStartTime?: string;
+  Pauses?: Array<{ Start: string; End: string }>;
+  Timestamps: TimestampRecord[];
+  Items?: NoteItemRecord[];
+}
+
+export interface MetadataBuildOptions {
+  pauses?: PauseInterval[];
+  lineMeta?: Map<number, NoteLineMeta>;
+  // Written as Language; defaults to the saved export language
+  language?: AppLanguage;
+}
+
+// Clean text paragraphs, or a table of time and text per line
+export type WordLayout = 'text' | 'timestamps';
+
+// Offset into the recording (StartTime) or wall-clock time (DateTime)
+export type WordTimeFormat = 'relative' | 'absolute';
+
+export interface WordExportSettings {
+  layout: WordLayout;
+  timeFormat: WordTimeFormat;
+}
+
+export type MinutesSection = 'info' | 'attendance' | 'notes' | 'decisions' | 'actions' | 'questions';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export type ExportFormat = 'docx' | 'markdown' | 'html' | 'pdf' | SubtitleFormat;
+
+export interface MinutesExportSettings {
+  // Written next to the .docx whenever a project is saved
+  extraFormats: ExportFormat[];
+}
+
+export interface MinutesLine {
+  // Trimmed; empty for blank lines, which only add spacing
+  text: string;
+  // Formatted per the time format; empty when the line has no timestamp
+  time: string;
+  speaker?: string;
+  highlight?: boolean;
+}
+
+export interface MinutesAttendee {
+  name: string;
+  organization: string;
+  // Labels in the export language
+  role: string;
+  status: string;
+}
+
+export interface MinutesActionItem {
+  text: string;
+  assignee: string;
+  dueDate: string;
+}
+
+// Format-neutral content of the minutes, rendered by each exporter
+export interface MinutesDocument {
+  language: AppLanguage;
+  template: WordTemplate;
+  // Sections to render in order; empty decision, action and question sections are left out
+  sections: MinutesSection[];
+  headings: Record<MinutesSection, string>;
+  info: Array<{ label: string; value: string }>;
+  attendance: MinutesAttendee[];
+  layout: WordLayout;
+  // Heading of the time column in the timestamps layout
+  timeHeading: string;
+  notes: MinutesLine[];
+  decisions: string[];
+  actions: MinutesActionItem[];
+  questions: string[];
+}
+
+export interface WordTemplateLabels {
+  infoHeading: string;
+  title: string;
+  date: string;
+  time: string;
+  location: string;
+  host: string;
+  attendanceHeading: string;
+  notesHeading: string;
+  decisionsHeading: string;
+  actionsHeading: string;
+  questionsHeading: string;
+}
+
+// Layout of the Word minutes, stored locally and chosen per meeting
+export interface WordTemplate {
+  id: string;
+  name: string;
+  organization: string;
+  // Extra letterhead lines under the organization name
+  letterhead: string;
+  title: string;
+  headerText: string;
+  footerText: string;
+  fontFamily: string;
+  fontSize: number;
+  labels: WordTemplateLabels;
+  // Included sections, in output order
+  sections: MinutesSection[];
+  // User-supplied .docx with {{placeholders}}; replaces the generated layout
+  docxFile?: Blob;
+  docxFileName?: string;
+  updatedAt: number;
+}
+
+export interface WordExportOptions extends Partial<WordExportSettings> {
+  // Defaults to the meeting's templateId
+  template?: WordTemplate;
+  lineMeta?: Map<number, NoteLineMeta>;
+  // Needed for the timestamps layout
+  timestampMap?: Map<number, number>;
+  recordingStartTime?: number;
+  pauses?: PauseInterval[];
+  // Language of fixed labels and the built-in template; defaults to the saved export language
+  language?: AppLanguage;
+  // Recording length in ms; caps the last subtitle cue
+  duration?: number;
+}
+
+// Files of a project already written to disk, rewritten by "Save Changes".
+// directory is null when the files were downloaded instead.
+export interface SavedProject {
+  projectName: string;
+  audioFileName: string;
+  duration: number;
+  directory: FileSystemDirectoryHandle | null;
+}
+
+// A saved project read back from disk
+export interface LoadedProject {
+  project: SavedProject;
+  snapshot: MeetingSessionSnapshot;
+  audioBlob: Blob;
+  hasNotes: boolean;
+}
+
+// One row of the meeting library
+export interface ProjectSummary {
+  projectName: string;
+  title: string;
+  date: string;
+  time: string;
+  host: string;
+  attendeeCount: number;
+  duration: number;
+  files: File[];
+  directory: FileSystemDirectoryHandle | null;
+}
+
+// A note line in the meeting search index; only timestamped lines are saved to metadata.json
+export interface IndexedNoteLine {
+  // Line number once the project is reopened
+  index: number;
+  text: string;
+  // Position in the recording
+  offsetMs: number;
+}
+
+// A saved project in the cross-meeting search index
+export interface MeetingIndexEntry {
+  // Root id, path below the root and project name,
+  // e.g. "root_1768745400000/Meeting_2026-01-18T14-30-00/Meeting_2026-01-18T14-30-00"
+  id: string;
+  projectName: string;
+  // Shared by the entries found under the same root folder
+  rootId: string;
+  root: FileSystemDirectoryHandle;
+  // Folder names from the root to the project's folder
+  path: string[];
+  // Root folder name, for display
+  folderName: string;
+  // Folder holding the project's files, reopened from the search results
+  directory: FileSystemDirectoryHandle;
+  title: string;
+  date: string;
+  time: string;
+  location: string;
+  host: string;
+  attendees: string[];
+  lines: IndexedNoteLine[];
+  // Lowercased words without diacritics, looked up through the byTerm index
+  terms: string[];
+  // Newest lastModified of the indexed files, to skip unchanged projects on rescan
+  modified: number;
+}
+
+export interface MeetingSearchFilters {
+  // Inclusive YYYY-MM-DD bounds on the meeting date
+  dateFrom?: string;
+  dateTo?: string;
+  host?: string;
+  attendee?: string;
+}
+
+// Character ranges of the query terms within a text, for highlighting
+export type MatchRange = [number, number];
+
+export interface MeetingSearchResult {
+  entry: MeetingIndexEntry;
+  // Title, host, location and attendees together hold every term
+  infoMatch: boolean;
+  // Lines holding every term
+  lines: IndexedNoteLine[];
+}
+
 export interface TimestampEntry {
   position: number;
   timeMs: number;
   text: string;
 }
 
+export type AudioFormat = 'wav' | 'webm-opus' | 'ogg-opus' | 'mp3';
+
+export type AudioQuality = 'low' | 'medium' | 'high';
+
+export interface AudioOutputSettings {
+  format: AudioFormat;
+  quality: AudioQuality;
+}
+
+// Wall-clock span during which recording was paused (end is null while still paused)
+export interface PauseInterval {
+  start: number;
+  end: number | null;
+}
+
+// Serializable copy of the editing session (Maps stored as entry arrays)
+export interface MeetingSessionSnapshot {
+  meetingInfo: MeetingInfo;
+  notes: string;
+  timestamps: Array<[number, number]>;
+  recordingStartTime: number;
+  pauses?: PauseInterval[];
+  lineMeta?: Array<[number, NoteLineMeta]>;
+}
+
+// Locally autosaved meeting, one per prepared or in-progress meeting
+export interface MeetingDraft extends MeetingSessionSnapshot {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+// Recording persisted chunk-by-chunk so it survives a crash or reload
+export interface RecordingSession {
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  chunkCount: number;
+  snapshot: MeetingSessionSnapshot;
+  output?: AudioOutputSettings;
+  duration?: number;
+}
+
+// Audio rebuilt from a recovery session, waiting to be saved as a project
+export interface RecoveredRecording {
+  sessionId: string;
+  duration: number;
+  format: AudioFormat;
+}
+
 export interface AudioRecorderState {
   isRecording: boolean;
   duration: number;
@@ -73,6 +474,22 @@ export interface FileSystemDirectoryHandle {
     name: string,
     options?: { create?: boolean }
   ): Promise<FileSystemDirectoryHandle>;
+  values(): AsyncIterableIterator<FileSystemDirectoryHandle | FileSystemFileHandle>;
+  queryPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<FolderPermissionState>;
+  requestPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<FolderPermissionState>;
+  isSameEntry(other: FileSystemDirectoryHandle): Promise<boolean>;
+  // Folder names leading to a descendant, null when it is not inside this folder
+  resolve(possibleDescendant: FileSystemDirectoryHandle): Promise<string[] | null>;
+}
+
+export type FolderPermissionState = 'granted' | 'prompt' | 'denied';
+
+// Folder handle remembered in IndexedDB between visits
+export interface RecentFolder {
+  id: string;
+  name: string;
+  handle: FileSystemDirectoryHandle;
+  lastUsed: number;
 }
 
 export interface FileSystemFileHandle {